@@ -0,0 +1,270 @@
+#!/usr/bin/env bun
+import { existsSync } from "fs";
+import { mkdir, rm, writeFile } from "fs/promises";
+import path from "path";
+
+if (process.argv.includes("--help") || process.argv.includes("-h")) {
+  console.log(`
+📦 Static Site Export
+
+Renders every published essay to plain HTML for static hosting.
+
+Usage: bun run export-site.ts [options]
+
+Options:
+  --out <path>             Output directory (default: "site")
+  --db <path>              SQLite database (default: $DATABASE_PATH or "disregarded.db")
+  --base-url <url>         Public URL the site will be served from, used in feeds
+                           (default: $PUBLIC_URL)
+  --help, -h               Show this help message
+
+Example:
+  bun run export-site.ts --out site/ --base-url https://essays.example.com
+`);
+  process.exit(0);
+}
+
+// Read "--name value" or "--name=value" from the command line
+function getArg(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === `--${name}`) return args[i + 1];
+    if (arg.startsWith(`--${name}=`)) return arg.slice(name.length + 3);
+  }
+  return undefined;
+}
+
+const outdir = path.resolve(getArg("out") || "site");
+const baseUrl = (getArg("base-url") || process.env.PUBLIC_URL || "").replace(/\/+$/, "");
+
+// The database module opens DATABASE_PATH on import, so set it before loading
+const dbPath = getArg("db");
+if (dbPath) process.env.DATABASE_PATH = dbPath;
+
+const { essayQueries, userQueries } = await import("./src/db");
+const { loadTags } = await import("./src/api/essays");
+const { renderMarkdown, escapeHtml, markdownExcerpt } = await import("./src/lib/markdown");
+const { renderRssFeed } = await import("./src/lib/feed");
+const { parseDbDate, SITE_NAME } = await import("./src/lib/site");
+
+type EssayWithAuthor = import("./src/db").EssayWithAuthor;
+
+// Number of most recent essays in the site feed
+const FEED_SIZE = 20;
+
+if (!baseUrl) {
+  console.warn("⚠️  No --base-url or PUBLIC_URL set; feed links will be site-relative");
+}
+
+// Everforest palette, taken from the @theme block in index.css
+async function loadPalette(): Promise<string> {
+  const css = await Bun.file(path.resolve("src/index.css")).text();
+  const theme = css.match(/@theme\s*\{([\s\S]*?)\n\}/)?.[1] ?? "";
+  return `:root {${theme}\n}`;
+}
+
+// Markdown preview rules (headings, code, alerts, ...) shared with the editor
+async function loadMarkdownStyles(): Promise<string> {
+  const css = await Bun.file(path.resolve("src/index.css")).text();
+  const rules = css.match(/^[ \t]*\.markdown-preview[^{]*\{[^}]*\}/gm) ?? [];
+  return rules.map((rule) => rule.replace(/^[ \t]{2}/gm, "")).join("\n\n");
+}
+
+const SITE_STYLES = `
+body {
+  margin: 0;
+  font-family: "JetBrains Mono", "Fira Code", "SF Mono", "Cascadia Code", monospace;
+  color: var(--color-fg);
+  background-color: var(--color-bg-dim);
+}
+
+header, main, footer {
+  max-width: 48rem;
+  margin: 0 auto;
+  padding: 1.5rem;
+}
+
+header {
+  border-bottom: 1px solid var(--color-bg3);
+}
+
+header a.site-name {
+  color: var(--color-green);
+  font-weight: 700;
+  text-decoration: none;
+}
+
+footer {
+  border-top: 1px solid var(--color-bg3);
+  color: var(--color-grey0);
+  font-size: 0.875rem;
+}
+
+a {
+  color: var(--color-aqua);
+}
+
+.meta {
+  color: var(--color-grey0);
+  font-size: 0.875rem;
+}
+
+.tag {
+  color: var(--color-purple);
+}
+
+.essay-list {
+  list-style: none;
+  padding: 0;
+}
+
+.essay-list li {
+  margin: 1.5rem 0;
+}
+
+.essay-list a.title {
+  color: var(--color-yellow);
+  font-size: 1.125rem;
+  text-decoration: none;
+}
+
+.essay-list p {
+  color: var(--color-grey2);
+  margin: 0.25rem 0;
+}
+`;
+
+// Wrap page content in the shared layout; root is the relative path back to the site root
+function layout(options: {
+  title: string;
+  description: string;
+  root: string;
+  body: string;
+  feed?: string;
+  feedTitle?: string;
+}): string {
+  const { title, description, root, body, feed = `${root}feed.xml`, feedTitle = SITE_NAME } = options;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>${escapeHtml(title)}</title>
+  <meta name="description" content="${escapeHtml(description)}" />
+  <link rel="stylesheet" href="${root}style.css" />
+  <link rel="alternate" type="application/rss+xml" title="${escapeHtml(feedTitle)}" href="${feed}" />
+</head>
+<body>
+  <header><a class="site-name" href="${root}">${escapeHtml(SITE_NAME)}</a></header>
+  <main>
+${body}
+  </main>
+  <footer>Exported ${new Date().toISOString().slice(0, 10)} · <a href="${feed}">RSS</a></footer>
+</body>
+</html>
+`;
+}
+
+function formatDate(value: string): string {
+  return parseDbDate(value).toISOString().slice(0, 10);
+}
+
+function renderTagList(tags: string[]): string {
+  return tags.map((tag) => `<span class="tag">#${escapeHtml(tag)}</span>`).join(" ");
+}
+
+function renderEssayList(essays: EssayWithAuthor[], tags: Map<number, string[]>, root: string): string {
+  const items = essays.map((essay) => `    <li>
+      <a class="title" href="${root}${essay.short_id}/">${escapeHtml(essay.title)}</a>
+      <div class="meta">by <a href="${root}u/${encodeURIComponent(essay.author)}/">${escapeHtml(essay.author)}</a> · ${formatDate(essay.updated_at)} ${renderTagList(tags.get(essay.id) ?? [])}</div>
+      <p>${escapeHtml(markdownExcerpt(essay.content))}</p>
+    </li>`);
+  return `  <ul class="essay-list">\n${items.join("\n")}\n  </ul>`;
+}
+
+async function writePage(relativePath: string, html: string): Promise<void> {
+  const file = path.join(outdir, relativePath);
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, html);
+}
+
+console.log("\n📦 Exporting static site...\n");
+const start = performance.now();
+
+if (existsSync(outdir)) {
+  console.log(`🗑️ Cleaning previous export at ${outdir}`);
+  await rm(outdir, { recursive: true, force: true });
+}
+await mkdir(outdir, { recursive: true });
+
+const essays = essayQueries.findPublished.all();
+const tags = loadTags(essays.map((essay) => essay.id));
+
+await writeFile(
+  path.join(outdir, "style.css"),
+  `/* Everforest Dark Medium */\n${await loadPalette()}\n${SITE_STYLES}\n${await loadMarkdownStyles()}\n`
+);
+
+// Index page
+await writePage("index.html", layout({
+  title: SITE_NAME,
+  description: `Published essays on ${SITE_NAME}`,
+  root: "./",
+  body: essays.length > 0 ? renderEssayList(essays, tags, "./") : "  <p class=\"meta\">No published essays yet.</p>",
+}));
+
+// Essay pages
+for (const essay of essays) {
+  await writePage(`${essay.short_id}/index.html`, layout({
+    title: `${essay.title} - ${SITE_NAME}`,
+    description: markdownExcerpt(essay.content),
+    root: "../",
+    body: `  <article>
+    <h1>${escapeHtml(essay.title)}</h1>
+    <p class="meta">by <a href="../u/${encodeURIComponent(essay.author)}/">${escapeHtml(essay.author)}</a> · ${formatDate(essay.created_at)} ${renderTagList(tags.get(essay.id) ?? [])}</p>
+    <div class="markdown-preview">
+${renderMarkdown(essay.content)}
+    </div>
+  </article>`,
+  }));
+}
+
+// Author pages and feeds
+const byAuthor = Map.groupBy(essays, (essay) => essay.user_id);
+for (const [userId, authored] of byAuthor) {
+  const user = userQueries.findById.get(userId);
+  if (!user) continue;
+
+  const name = user.display_name || user.username;
+  const authorDir = `u/${user.username}`;
+  await writePage(`${authorDir}/index.html`, layout({
+    title: `${name} - ${SITE_NAME}`,
+    description: user.bio ? markdownExcerpt(user.bio) : `Essays by ${name}`,
+    root: "../../",
+    feed: "feed.xml",
+    feedTitle: name,
+    body: `  <h1>${escapeHtml(name)}</h1>
+  <p class="meta">@${escapeHtml(user.username)} · ${authored.length} ${authored.length === 1 ? "essay" : "essays"}</p>
+  ${user.bio ? `<div class="markdown-preview">${renderMarkdown(user.bio)}</div>` : ""}
+${renderEssayList(authored, tags, "../../")}`,
+  }));
+
+  await writePage(`${authorDir}/feed.xml`, renderRssFeed({
+    title: `${name} - ${SITE_NAME}`,
+    description: `Essays by ${name}`,
+    siteUrl: `${baseUrl}/u/${user.username}/`,
+    feedUrl: `${baseUrl}/u/${user.username}/feed.xml`,
+  }, authored, baseUrl));
+}
+
+// Site feed
+await writePage("feed.xml", renderRssFeed({
+  title: SITE_NAME,
+  description: `Published essays on ${SITE_NAME}`,
+  siteUrl: `${baseUrl}/`,
+  feedUrl: `${baseUrl}/feed.xml`,
+}, essays.slice(0, FEED_SIZE), baseUrl));
+
+const end = performance.now();
+console.log(`✅ Exported ${essays.length} ${essays.length === 1 ? "essay" : "essays"} by ${byAuthor.size} ${byAuthor.size === 1 ? "author" : "authors"} to ${outdir} in ${(end - start).toFixed(2)}ms\n`);
@@ -0,0 +1,217 @@
+#!/usr/bin/env bun
+import { Database } from "bun:sqlite";
+import { existsSync } from "fs";
+import { rename, rm } from "fs/promises";
+import path from "path";
+import { createDictionarySchema } from "./src/db/dictionary";
+
+if (process.argv.includes("--help") || process.argv.includes("-h")) {
+  console.log(`
+📖 Dictionary Import
+
+Builds the dictionary database behind /api/define and /api/thesaurus from a WordNet release in the
+classic database format (index.noun, data.noun, noun.exc, ...), such as Princeton
+WordNet 3.1 or Open English WordNet.
+
+Usage: bun run import-dictionary.ts --wordnet <dir> [options]
+
+Options:
+  --wordnet <dir>          Directory holding the WordNet dict files
+  --out <path>             SQLite database to write, replaced if it exists
+                           (default: $DICTIONARY_PATH or "dictionary.db")
+  --help, -h               Show this help message
+
+Example:
+  bun run import-dictionary.ts --wordnet WordNet-3.1/dict --out /data/dictionary.db
+`);
+  process.exit(0);
+}
+
+// Read "--name value" or "--name=value" from the command line
+function getArg(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === `--${name}`) return args[i + 1];
+    if (arg.startsWith(`--${name}=`)) return arg.slice(name.length + 3);
+  }
+  return undefined;
+}
+
+const wordnetDir = getArg("wordnet");
+if (!wordnetDir) {
+  console.error("❌ --wordnet <dir> is required (see --help)");
+  process.exit(1);
+}
+const sourceDir = path.resolve(wordnetDir);
+const outPath = path.resolve(getArg("out") || process.env.DICTIONARY_PATH || "dictionary.db");
+
+// WordNet file suffix -> part of speech shown in the popup
+const PARTS_OF_SPEECH: Record<string, string> = {
+  noun: "noun",
+  verb: "verb",
+  adj: "adjective",
+  adv: "adverb",
+};
+
+// WordNet writes multi-word entries with underscores ("ice_cream")
+function toWord(lemma: string): string {
+  return lemma.replace(/_/g, " ").toLowerCase();
+}
+
+// License text at the top of each file is indented by two spaces
+async function readLines(file: string): Promise<string[]> {
+  const text = await Bun.file(path.join(sourceDir, file)).text();
+  return text.split("\n").filter((line) => line && !line.startsWith("  "));
+}
+
+// Gloss: definition; "example"; "another example"
+function parseGloss(gloss: string): { definition: string; example: string | null } {
+  const example = gloss.match(/"([^"]+)"/)?.[1]?.trim() ?? null;
+  const definition = gloss
+    .replace(/"[^"]*"/g, "")
+    .split(";")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join("; ");
+  return { definition, example };
+}
+
+for (const suffix of Object.keys(PARTS_OF_SPEECH)) {
+  for (const file of [`index.${suffix}`, `data.${suffix}`]) {
+    if (!existsSync(path.join(sourceDir, file))) {
+      console.error(`❌ ${file} not found in ${sourceDir}`);
+      process.exit(1);
+    }
+  }
+}
+
+// Build next to the target and swap it in at the end, so a failed import leaves the old one
+const tmpPath = `${outPath}.tmp`;
+await rm(tmpPath, { force: true });
+const db = new Database(tmpPath);
+createDictionarySchema(db);
+
+const insertSynset = db.prepare<{ id: number }, [string, string, string | null]>(
+  "INSERT INTO synsets (part_of_speech, definition, example) VALUES (?, ?, ?) RETURNING id"
+);
+const insertWord = db.prepare<{ id: number }, [string]>(
+  "INSERT INTO words (word) VALUES (?) ON CONFLICT(word) DO UPDATE SET word = excluded.word RETURNING id"
+);
+const insertSense = db.prepare(
+  "INSERT OR IGNORE INTO senses (word_id, synset_id, rank) VALUES (?, ?, ?)"
+);
+const insertAntonym = db.prepare(
+  "INSERT OR IGNORE INTO antonyms (word_id, synset_id, antonym_id) VALUES (?, ?, ?)"
+);
+const insertInflection = db.prepare(
+  "INSERT OR IGNORE INTO inflections (form, base) VALUES (?, ?)"
+);
+
+let senseCount = 0;
+let antonymCount = 0;
+let inflectionCount = 0;
+
+console.log(`\n📖 Importing WordNet from ${sourceDir}\n`);
+
+for (const [suffix, partOfSpeech] of Object.entries(PARTS_OF_SPEECH)) {
+  // Synset offsets are byte positions, only unique within one data file
+  const synsetIds = new Map<string, number>();
+
+  // Words of each synset in file order, which antonym pointers refer to by position
+  const synsetWords = new Map<string, string[]>();
+  const antonymPointers: { offset: string; source: number; target: string; targetWord: number }[] = [];
+
+  // data.<pos>: offset lex_filenum ss_type w_cnt [word lex_id...] p_cnt [ptr...] | gloss
+  const dataLines = await readLines(`data.${suffix}`);
+  db.transaction(() => {
+    for (const line of dataLines) {
+      const separator = line.indexOf(" | ");
+      if (separator === -1) continue;
+      const fields = line.slice(0, separator).trim().split(/\s+/);
+      const offset = fields[0]!;
+      const { definition, example } = parseGloss(line.slice(separator + 3));
+      if (!definition) continue;
+
+      synsetIds.set(offset, insertSynset.get(partOfSpeech, definition, example)!.id);
+
+      // Adjectives carry a syntactic marker: "galore(ip)"
+      const wordCount = parseInt(fields[3]!, 16);
+      const words: string[] = [];
+      for (let i = 0; i < wordCount; i++) {
+        words.push(toWord(fields[4 + i * 2]!.replace(/\([a-z]+\)$/, "")));
+      }
+      synsetWords.set(offset, words);
+
+      // Pointer: symbol target_offset pos source/target, word numbers in hex ("0000" = whole synset)
+      let field = 4 + wordCount * 2;
+      const pointerCount = parseInt(fields[field++]!, 10);
+      for (let i = 0; i < pointerCount; i++, field += 4) {
+        if (fields[field] !== "!") continue;
+        const sourceTarget = fields[field + 3]!;
+        antonymPointers.push({
+          offset,
+          source: parseInt(sourceTarget.slice(0, 2), 16),
+          target: fields[field + 1]!,
+          targetWord: parseInt(sourceTarget.slice(2), 16),
+        });
+      }
+    }
+  })();
+
+  // index.<pos>: lemma pos synset_cnt p_cnt [ptr_symbol...] sense_cnt tagsense_cnt offset...
+  // Offsets are listed most common sense first
+  const indexLines = await readLines(`index.${suffix}`);
+  db.transaction(() => {
+    for (const line of indexLines) {
+      const fields = line.trim().split(/\s+/);
+      const synsetCnt = parseInt(fields[2]!, 10);
+      const offsets = fields.slice(-synsetCnt);
+
+      const wordId = insertWord.get(toWord(fields[0]!))!.id;
+      offsets.forEach((offset, rank) => {
+        const synsetId = synsetIds.get(offset);
+        if (synsetId === undefined) return;
+        insertSense.run(wordId, synsetId, rank);
+        senseCount++;
+      });
+    }
+  })();
+
+  // Antonyms point within the same file, from one word of a synset to one word of another
+  db.transaction(() => {
+    for (const pointer of antonymPointers) {
+      const word = synsetWords.get(pointer.offset)?.[pointer.source - 1];
+      const antonym = synsetWords.get(pointer.target)?.[pointer.targetWord - 1];
+      const synsetId = synsetIds.get(pointer.offset);
+      if (!word || !antonym || synsetId === undefined) continue;
+
+      insertAntonym.run(insertWord.get(word)!.id, synsetId, insertWord.get(antonym)!.id);
+      antonymCount++;
+    }
+  })();
+
+  // <pos>.exc: inflected base [base...]
+  if (existsSync(path.join(sourceDir, `${suffix}.exc`))) {
+    const exceptionLines = await readLines(`${suffix}.exc`);
+    db.transaction(() => {
+      for (const line of exceptionLines) {
+        const [form, ...bases] = line.trim().split(/\s+/).map(toWord);
+        for (const base of bases) {
+          insertInflection.run(form!, base);
+          inflectionCount++;
+        }
+      }
+    })();
+  }
+
+  console.log(`   ${partOfSpeech}: ${synsetIds.size} definitions`);
+}
+
+const { count: wordCount } = db.prepare<{ count: number }, []>("SELECT COUNT(*) as count FROM words").get()!;
+db.run("VACUUM");
+db.close();
+await rename(tmpPath, outPath);
+
+console.log(`\n✅ Imported ${wordCount} words with ${senseCount} senses, ${antonymCount} antonyms and ${inflectionCount} irregular forms to ${outPath}`);
+console.log("   Restart the server to pick up the new dictionary\n");
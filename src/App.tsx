@@ -3,6 +3,7 @@ import "./index.css";
 import { AsciiLogo } from "./components/AsciiLogo";
 import { Terminal } from "./components/Terminal";
 import { EssayEditor } from "./components/EssayEditor";
+import { ProfileView } from "./components/ProfileView";
 import { useAuth, authFetch } from "./hooks/useAuth";
 import { useTerminal } from "./hooks/useTerminal.tsx";
 
@@ -10,7 +11,9 @@ interface Essay {
   id?: string;
   title: string;
   content: string;
-  status?: "draft" | "published";
+  status?: "draft" | "unlisted" | "published";
+  role?: "viewer" | "editor" | "owner" | null;
+  tags?: string[];
 }
 
 // Update browser URL without reload
@@ -25,11 +28,41 @@ function getEssayIdFromUrl(): string | null {
   return match ? match[1] : null;
 }
 
+// Preview key from a secret draft link (/<id>?key=...), passed through to the essay API
+function getEssayQueryFromUrl(): string {
+  const key = new URLSearchParams(window.location.search).get("key");
+  return key ? `?key=${encodeURIComponent(key)}` : "";
+}
+
+// Drafts open in the editor for people who can edit them; everything else is read-only
+function opensInViewMode(essay: Essay): boolean {
+  return essay.status !== "draft" || (essay.role !== "owner" && essay.role !== "editor");
+}
+
+// Parse author username from a /u/<username> profile path
+function getProfileFromUrl(): string | null {
+  const match = window.location.pathname.match(/^\/u\/([a-zA-Z0-9_]+)$/);
+  return match?.[1] ?? null;
+}
+
+// Read the essay embedded by the server-rendered page, if any (consumed once)
+function takeInitialEssay(): Essay | null {
+  const script = document.getElementById("initial-essay");
+  if (!script) return null;
+  script.remove();
+  try {
+    return JSON.parse(script.textContent || "");
+  } catch {
+    return null;
+  }
+}
+
 export function App() {
   const auth = useAuth();
   const [editingEssay, setEditingEssay] = useState<Essay | null | undefined>(undefined);
   const [viewMode, setViewMode] = useState(false);
   const [initialLoadDone, setInitialLoadDone] = useState(false);
+  const [viewingProfile, setViewingProfile] = useState<string | null>(null);
 
   const handleEditEssay = useCallback((essay: Essay | null) => {
     setEditingEssay(essay);
@@ -49,14 +82,23 @@ export function App() {
     }
   }, []);
 
+  const handleViewProfile = useCallback((username: string) => {
+    setViewingProfile(username);
+    window.history.pushState({}, "", `/u/${username}`);
+  }, []);
+
   const terminal = useTerminal({
     isAuthenticated: auth.isAuthenticated,
     username: auth.user?.username || null,
+    isAdmin: !!auth.user?.is_admin,
     onLogin: auth.login,
     onRegister: auth.register,
     onLogout: auth.logout,
+    onChangePassword: auth.changePassword,
+    onDeleteAccount: auth.deleteAccount,
     onEditEssay: handleEditEssay,
     onViewEssay: handleViewEssay,
+    onViewProfile: handleViewProfile,
   });
 
   // Load essay from URL on initial page load
@@ -64,16 +106,21 @@ export function App() {
     if (auth.isLoading || initialLoadDone) return;
 
     const essayId = getEssayIdFromUrl();
-    if (essayId) {
+    const initialEssay = takeInitialEssay();
+    if (essayId && initialEssay?.id === essayId) {
+      // Essay already rendered by the server - open it without refetching
+      setEditingEssay(initialEssay);
+      setViewMode(true);
+      setInitialLoadDone(true);
+    } else if (essayId) {
       // Fetch and display the essay (use authFetch to include token if logged in)
-      authFetch(`/api/essays/${essayId}`)
+      authFetch(`/api/essays/${essayId}${getEssayQueryFromUrl()}`)
         .then(res => res.json())
         .then(data => {
           if (data.essay) {
             setEditingEssay(data.essay);
-            // If it's a draft, open in edit mode (user must be owner to see drafts)
-            // If published, open in view mode
-            setViewMode(data.essay.status !== "draft");
+            // Drafts open in edit mode for their editors, in view mode for preview link holders
+            setViewMode(opensInViewMode(data.essay));
           }
         })
         .catch(() => {
@@ -83,6 +130,7 @@ export function App() {
           setInitialLoadDone(true);
         });
     } else {
+      setViewingProfile(getProfileFromUrl());
       setInitialLoadDone(true);
     }
   }, [auth.isLoading, initialLoadDone]);
@@ -91,13 +139,14 @@ export function App() {
   useEffect(() => {
     const handlePopState = () => {
       const essayId = getEssayIdFromUrl();
+      setViewingProfile(getProfileFromUrl());
       if (essayId) {
-        authFetch(`/api/essays/${essayId}`)
+        authFetch(`/api/essays/${essayId}${getEssayQueryFromUrl()}`)
           .then(res => res.json())
           .then(data => {
             if (data.essay) {
               setEditingEssay(data.essay);
-              setViewMode(data.essay.status !== "draft");
+              setViewMode(opensInViewMode(data.essay));
             }
           })
           .catch(() => {
@@ -126,6 +175,30 @@ export function App() {
     }, 0);
   }, []);
 
+  const handleProfileClose = useCallback(() => {
+    setViewingProfile(null);
+    updateUrl();
+    setTimeout(() => {
+      const terminalInput = document.querySelector('.terminal-input') as HTMLInputElement;
+      terminalInput?.focus();
+    }, 0);
+  }, []);
+
+  // Open an essay from a profile's essay list (read-only)
+  const handleProfileOpenEssay = useCallback((id: string) => {
+    authFetch(`/api/essays/${id}`)
+      .then(res => res.json())
+      .then(data => {
+        if (data.essay) {
+          setViewingProfile(null);
+          handleViewEssay(data.essay);
+        }
+      })
+      .catch(() => {
+        // Leave the profile open on failure
+      });
+  }, [handleViewEssay]);
+
   const handleEditorSaved = useCallback((message: string) => {
     terminal.addLine(message, "success");
   }, [terminal]);
@@ -183,10 +256,20 @@ export function App() {
         <span>disregarded v0.1.0</span>
       </div>
 
+      {/* Author profile overlay */}
+      {viewingProfile && editingEssay === undefined && (
+        <ProfileView
+          username={viewingProfile}
+          onClose={handleProfileClose}
+          onOpenEssay={handleProfileOpenEssay}
+        />
+      )}
+
       {/* Essay editor overlay */}
       {editingEssay !== undefined && (
         <EssayEditor
           essay={editingEssay}
+          userId={auth.user?.id ?? null}
           onClose={handleEditorClose}
           onSaved={handleEditorSaved}
           readOnly={viewMode}
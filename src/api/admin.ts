@@ -0,0 +1,210 @@
+import { userQueries, essayQueries, sessionQueries, reportQueries, type User, type ReportStatus } from "../db";
+import { decodeParam, type AuthenticatedRequest } from "./middleware";
+
+// Moderation console: user management and content takedowns (admins only)
+
+// Usernames made admins on startup, comma separated
+const ADMIN_USERNAMES = new Set(
+  (process.env.ADMIN_USERNAMES || "").split(",").map((name) => name.trim()).filter(Boolean)
+);
+
+// Grant admin to the ADMIN_USERNAMES accounts that already exist
+// Never at registration, or whoever signs up with a listed name first would get it
+// Removing a name later doesn't demote it; admin is a flag on the user row
+export function grantBootstrapAdmins(): void {
+  for (const username of ADMIN_USERNAMES) {
+    const user = userQueries.findByUsername.get(username);
+    if (user && !user.is_admin) {
+      userQueries.setAdmin.get(1, user.id);
+      console.log(`[admin] Granted admin to ${username}`);
+    }
+  }
+}
+
+interface ResolveReportsRequest {
+  status: ReportStatus;
+}
+
+function toAdminUser(user: User) {
+  return {
+    username: user.username,
+    is_admin: !!user.is_admin,
+    disabled_at: user.disabled_at,
+    created_at: user.created_at,
+  };
+}
+
+// List all users with their essay counts (admin)
+export async function getUsers(req: AuthenticatedRequest): Promise<Response> {
+  try {
+    const users = userQueries.findAllForAdmin.all().map((user) => ({
+      ...user,
+      is_admin: !!user.is_admin,
+    }));
+    return Response.json({ users });
+  } catch (error) {
+    console.error("Admin get users error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Disable an account: it can't sign in and all of its sessions end (admin)
+export async function disableUser(req: AuthenticatedRequest & { params: { username: string } }): Promise<Response> {
+  try {
+    const username = decodeParam(req.params.username);
+    if (!username) {
+      return Response.json({ error: "Invalid username" }, { status: 400 });
+    }
+    const user = userQueries.findByUsername.get(username);
+    if (!user) {
+      return Response.json({ error: "User not found" }, { status: 404 });
+    }
+    if (user.is_admin) {
+      return Response.json({ error: "Admin accounts can't be disabled" }, { status: 400 });
+    }
+
+    const disabled = userQueries.disable.get(user.id)!;
+    sessionQueries.revokeAllForUser.run(user.id);
+    console.log(`[admin] ${req.username} disabled ${user.username}`);
+
+    return Response.json({ message: `Disabled ${user.username}`, user: toAdminUser(disabled) });
+  } catch (error) {
+    console.error("Admin disable user error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Re-enable a disabled account (admin)
+export async function enableUser(req: AuthenticatedRequest & { params: { username: string } }): Promise<Response> {
+  try {
+    const username = decodeParam(req.params.username);
+    if (!username) {
+      return Response.json({ error: "Invalid username" }, { status: 400 });
+    }
+    const user = userQueries.findByUsername.get(username);
+    if (!user) {
+      return Response.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const enabled = userQueries.enable.get(user.id)!;
+    console.log(`[admin] ${req.username} enabled ${user.username}`);
+
+    return Response.json({ message: `Enabled ${user.username}`, user: toAdminUser(enabled) });
+  } catch (error) {
+    console.error("Admin enable user error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Take an essay down to a draft, whoever owns it (admin)
+export async function forceUnpublishEssay(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const existing = essayQueries.findByShortId.get(req.params.id);
+    if (!existing) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+
+    let essay = essayQueries.updateStatus.get("draft", existing.short_id, existing.user_id);
+    if (!essay) {
+      return Response.json(
+        { error: "Failed to unpublish essay" },
+        { status: 500 }
+      );
+    }
+    // Taking it down settles the reports that led here
+    reportQueries.resolveOpen.all("actioned", req.userId, essay.id);
+    essay = essayQueries.unhide.get(essay.id) ?? essay;
+    console.log(`[admin] ${req.username} unpublished essay ${essay.short_id}`);
+
+    return Response.json({ message: "Essay unpublished", essay: { ...essay, id: essay.short_id } });
+  } catch (error) {
+    console.error("Admin unpublish essay error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete an essay, whoever owns it (admin)
+export async function forceDeleteEssay(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const existing = essayQueries.findByShortId.get(req.params.id);
+    if (!existing) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+
+    essayQueries.delete.run(existing.short_id, existing.user_id);
+    console.log(`[admin] ${req.username} deleted essay ${existing.short_id}`);
+
+    return Response.json({ message: "Essay deleted" });
+  } catch (error) {
+    console.error("Admin delete essay error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// List open reports, grouped by essay (admin)
+export async function getReports(req: AuthenticatedRequest): Promise<Response> {
+  try {
+    const reports = reportQueries.findOpenByEssay.all().map((report) => ({
+      ...report,
+      id: report.short_id,
+      reasons: JSON.parse(report.reasons),
+    }));
+    return Response.json({ reports });
+  } catch (error) {
+    console.error("Admin get reports error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Close an essay's open reports as dismissed or actioned (admin)
+// Only dismissing shows a hidden essay again; actioned ones stay hidden until unpublished or deleted
+export async function resolveReports(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const essay = essayQueries.findByShortId.get(req.params.id);
+    if (!essay) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+
+    const body: ResolveReportsRequest = await req.json();
+    if (body.status !== "dismissed" && body.status !== "actioned") {
+      return Response.json({ error: "Status must be dismissed or actioned" }, { status: 400 });
+    }
+
+    const resolved = reportQueries.resolveOpen.all(body.status, req.userId, essay.id);
+    if (resolved.length === 0) {
+      return Response.json({ error: "Essay has no open reports" }, { status: 404 });
+    }
+    if (body.status === "dismissed") {
+      essayQueries.unhide.get(essay.id);
+    }
+    console.log(`[admin] ${req.username} marked ${resolved.length} reports on essay ${essay.short_id} ${body.status}`);
+
+    return Response.json({
+      message: `${resolved.length} ${resolved.length === 1 ? "report" : "reports"} ${body.status}`,
+    });
+  } catch (error) {
+    console.error("Admin resolve reports error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
-import { userQueries } from "../db";
-import { createToken } from "../lib/jwt";
+import { userQueries, sessionQueries, deleteUserAccount, type Session, type User } from "../db";
+import { createToken, generateOpaqueToken, hashToken, REFRESH_TOKEN_EXPIRY } from "../lib/jwt";
+import { getClientIp, type AuthenticatedRequest } from "./middleware";
 
 // Registration toggle - set to "false" to disable new signups
 const REGISTRATION_ENABLED = process.env.REGISTRATION_ENABLED !== "false";
@@ -14,6 +15,53 @@ interface LoginRequest {
   password: string;
 }
 
+interface RefreshRequest {
+  refreshToken: string;
+}
+
+interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+interface DeleteAccountRequest {
+  password: string;
+}
+
+const REFRESH_EXPIRY_MODIFIER = `+${REFRESH_TOKEN_EXPIRY} seconds`;
+
+// Start a new session and issue its access + refresh token pair
+async function startSession(user: User, req: Request): Promise<{ token: string; refreshToken: string }> {
+  sessionQueries.deleteExpired.run();
+
+  const refreshToken = generateOpaqueToken();
+  const userAgent = req.headers.get("User-Agent")?.slice(0, 255) ?? null;
+  const session = sessionQueries.create.get(
+    generateOpaqueToken(12),
+    user.id,
+    hashToken(refreshToken),
+    userAgent,
+    getClientIp(req),
+    REFRESH_EXPIRY_MODIFIER
+  )!;
+
+  const token = await createToken(user.id, user.username, session.id);
+  return { token, refreshToken };
+}
+
+// Shape a session for API responses - never expose the token hash
+function toSessionInfo(session: Session, currentId: string) {
+  return {
+    id: session.id,
+    user_agent: session.user_agent,
+    ip: session.ip,
+    created_at: session.created_at,
+    last_used_at: session.last_used_at,
+    expires_at: session.expires_at,
+    current: session.id === currentId,
+  };
+}
+
 // Validate username (alphanumeric, 3-20 chars)
 function isValidUsername(username: string): boolean {
   return /^[a-zA-Z0-9_]{3,20}$/.test(username);
@@ -24,6 +72,15 @@ function isValidPassword(password: string): boolean {
   return password.length >= 6;
 }
 
+// Hash password using Bun's built-in argon2id
+function hashPassword(password: string): Promise<string> {
+  return Bun.password.hash(password, {
+    algorithm: "argon2id",
+    memoryCost: 65536,
+    timeCost: 2,
+  });
+}
+
 export async function register(req: Request): Promise<Response> {
   try {
     // Check if registration is enabled
@@ -68,12 +125,7 @@ export async function register(req: Request): Promise<Response> {
       );
     }
 
-    // Hash password using Bun's built-in argon2id
-    const passwordHash = await Bun.password.hash(password, {
-      algorithm: "argon2id",
-      memoryCost: 65536,
-      timeCost: 2,
-    });
+    const passwordHash = await hashPassword(password);
 
     // Create user
     const user = userQueries.create.get(username, passwordHash);
@@ -84,15 +136,17 @@ export async function register(req: Request): Promise<Response> {
       );
     }
 
-    // Generate token
-    const token = await createToken(user.id, user.username);
+    // Generate tokens
+    const { token, refreshToken } = await startSession(user, req);
 
     return Response.json({
       message: "Registration successful",
       token,
+      refreshToken,
       user: {
         id: user.id,
         username: user.username,
+        is_admin: !!user.is_admin,
       },
     });
   } catch (error) {
@@ -135,15 +189,24 @@ export async function login(req: Request): Promise<Response> {
       );
     }
 
-    // Generate token
-    const token = await createToken(user.id, user.username);
+    if (user.disabled_at) {
+      return Response.json(
+        { error: "This account has been disabled" },
+        { status: 403 }
+      );
+    }
+
+    // Generate tokens
+    const { token, refreshToken } = await startSession(user, req);
 
     return Response.json({
       message: "Login successful",
       token,
+      refreshToken,
       user: {
         id: user.id,
         username: user.username,
+        is_admin: !!user.is_admin,
       },
     });
   } catch (error) {
@@ -154,3 +217,209 @@ export async function login(req: Request): Promise<Response> {
     );
   }
 }
+
+// Exchange a refresh token for a new token pair (public)
+// The refresh token is rotated: the one presented stops working
+export async function refresh(req: Request): Promise<Response> {
+  try {
+    const body: RefreshRequest = await req.json();
+    if (!body.refreshToken || typeof body.refreshToken !== "string") {
+      return Response.json(
+        { error: "Refresh token is required" },
+        { status: 400 }
+      );
+    }
+
+    const session = sessionQueries.findActiveByTokenHash.get(hashToken(body.refreshToken));
+    const user = session ? userQueries.findById.get(session.user_id) : null;
+    if (!session || !user || user.disabled_at) {
+      return Response.json(
+        { error: "Invalid or expired refresh token" },
+        { status: 401 }
+      );
+    }
+
+    const refreshToken = generateOpaqueToken();
+    const rotated = sessionQueries.rotate.get(hashToken(refreshToken), REFRESH_EXPIRY_MODIFIER, session.id);
+    if (!rotated) {
+      return Response.json(
+        { error: "Invalid or expired refresh token" },
+        { status: 401 }
+      );
+    }
+
+    const token = await createToken(user.id, user.username, session.id);
+
+    return Response.json({ token, refreshToken });
+  } catch (error) {
+    console.error("Refresh error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Revoke the session a refresh token belongs to (public)
+// Takes the refresh token so logout works even after the access token expired
+export async function logout(req: Request): Promise<Response> {
+  try {
+    const body: RefreshRequest = await req.json();
+    if (!body.refreshToken || typeof body.refreshToken !== "string") {
+      return Response.json(
+        { error: "Refresh token is required" },
+        { status: 400 }
+      );
+    }
+
+    const session = sessionQueries.findActiveByTokenHash.get(hashToken(body.refreshToken));
+    if (session) {
+      sessionQueries.revoke.get(session.id, session.user_id);
+    }
+
+    return Response.json({ message: "Logged out" });
+  } catch (error) {
+    console.error("Logout error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// List the user's active sessions (authenticated)
+export async function getSessions(req: AuthenticatedRequest): Promise<Response> {
+  try {
+    const sessions = sessionQueries.findActiveByUserId.all(req.userId);
+    return Response.json({
+      sessions: sessions.map((s) => toSessionInfo(s, req.sessionId)),
+    });
+  } catch (error) {
+    console.error("Get sessions error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Revoke one of the user's sessions (authenticated)
+export async function revokeSession(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const revoked = sessionQueries.revoke.get(req.params.id, req.userId);
+    if (!revoked) {
+      return Response.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    return Response.json({
+      message: "Session revoked",
+      current: revoked.id === req.sessionId,
+    });
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Change password (authenticated)
+// Revokes every session, then starts a fresh one for the caller
+export async function changePassword(req: AuthenticatedRequest): Promise<Response> {
+  try {
+    const body: ChangePasswordRequest = await req.json();
+    const { currentPassword, newPassword } = body;
+
+    if (!currentPassword || !newPassword) {
+      return Response.json(
+        { error: "Current and new password are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidPassword(newPassword)) {
+      return Response.json(
+        { error: "Password must be at least 6 characters" },
+        { status: 400 }
+      );
+    }
+
+    const user = userQueries.findById.get(req.userId);
+    if (!user) {
+      return Response.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    // 403 rather than 401 so clients don't mistake this for an expired token
+    const isValid = await Bun.password.verify(currentPassword, user.password_hash);
+    if (!isValid) {
+      return Response.json(
+        { error: "Current password is incorrect" },
+        { status: 403 }
+      );
+    }
+
+    userQueries.updatePassword.run(await hashPassword(newPassword), user.id);
+    sessionQueries.revokeAllForUser.run(user.id);
+
+    const { token, refreshToken } = await startSession(user, req);
+
+    return Response.json({
+      message: "Password changed",
+      token,
+      refreshToken,
+    });
+  } catch (error) {
+    console.error("Change password error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete account and all of its essays (authenticated)
+export async function deleteAccount(req: AuthenticatedRequest): Promise<Response> {
+  try {
+    const body: DeleteAccountRequest = await req.json();
+
+    if (!body.password) {
+      return Response.json(
+        { error: "Password is required" },
+        { status: 400 }
+      );
+    }
+
+    const user = userQueries.findById.get(req.userId);
+    if (!user) {
+      return Response.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const isValid = await Bun.password.verify(body.password, user.password_hash);
+    if (!isValid) {
+      return Response.json(
+        { error: "Password is incorrect" },
+        { status: 403 }
+      );
+    }
+
+    deleteUserAccount(user.id);
+
+    return Response.json({ message: "Account deleted" });
+  } catch (error) {
+    console.error("Delete account error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
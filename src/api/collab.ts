@@ -0,0 +1,321 @@
+import type { ServerWebSocket, WebSocketHandler } from "bun";
+import { ChangeSet, Text } from "@codemirror/state";
+import { essayQueries, sessionQueries } from "../db";
+import { MAX_ESSAY_LENGTH, recordRevision, hasEssayRole } from "./essays";
+import { verifySessionToken } from "./middleware";
+import { mergeLines, replacementBetween } from "../lib/diff";
+import type { ClientMessage, ServerMessage, Peer, WireUpdate } from "../lib/collab";
+
+// Real-time collaborative editing over WebSocket
+// The server is the central authority for @codemirror/collab: it accepts pushes made against
+// its current version, broadcasts them to every editor in the room and persists the result
+
+// Delay after the last accepted change before the document is written to the database
+const SAVE_DELAY = 2000;
+
+// Close codes the client treats as final (no reconnect)
+export const CLOSE_UNAUTHORIZED = 4001;
+export const CLOSE_FORBIDDEN = 4003;
+export const CLOSE_NOT_FOUND = 4004;
+export const CLOSE_INVALID = 4000;
+
+export interface CollabSocketData {
+  shortId: string;
+  peer: number;
+  userId: number | null; // Set once the auth message is accepted
+  username: string;
+  sessionId: string;
+  cursor: Peer["cursor"];
+}
+
+type CollabSocket = ServerWebSocket<CollabSocketData>;
+
+interface Room {
+  essayId: number;
+  shortId: string;
+  ownerId: number;
+  doc: Text;
+  savedDoc: Text; // Content as last loaded from or written to the database
+  version: number;
+  savedVersion: number;
+  sockets: Set<CollabSocket>;
+  saveTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const rooms = new Map<string, Room>();
+let nextPeer = 1;
+
+// Socket data for an upgrade request; the client authenticates with its first message
+export function collabSocketData(shortId: string): CollabSocketData {
+  return { shortId, peer: nextPeer++, userId: null, username: "", sessionId: "", cursor: null };
+}
+
+function send(ws: CollabSocket, message: ServerMessage): void {
+  ws.send(JSON.stringify(message));
+}
+
+function broadcast(room: Room, message: ServerMessage, except?: CollabSocket): void {
+  const data = JSON.stringify(message);
+  for (const ws of room.sockets) {
+    if (ws !== except) ws.send(data);
+  }
+}
+
+function toPeer(ws: CollabSocket): Peer {
+  return { peer: ws.data.peer, name: ws.data.username, cursor: ws.data.cursor };
+}
+
+function toText(content: string): Text {
+  return Text.of(content.split(/\r\n?|\n/));
+}
+
+// Move the room to content written outside it (a restore or an API update), keeping its unsaved
+// edits where they merge cleanly; editors get the difference as an ordinary update
+function rebase(room: Room, stored: Text): void {
+  const unsaved = room.savedVersion !== room.version;
+  const merged = mergeLines(room.savedDoc.toString(), room.doc.toString(), stored.toString());
+  if (merged.conflicts > 0) {
+    broadcast(room, { type: "error", error: "Essay was changed elsewhere; your latest edits clashed and were dropped" });
+  }
+
+  const current = room.doc.toString();
+  const target = merged.conflicts > 0 ? stored.toString() : merged.text;
+  if (target !== current) {
+    const changes = ChangeSet.of(replacementBetween(current, target), room.doc.length);
+    room.doc = changes.apply(room.doc);
+    room.version++;
+    broadcast(room, { type: "updates", updates: [{ clientID: "server", changes: changes.toJSON() }] });
+  }
+
+  room.savedDoc = stored;
+  if (!unsaved) room.savedVersion = room.version;
+}
+
+// Deleted while being edited
+function closeDeletedRoom(room: Room): void {
+  for (const ws of room.sockets) {
+    ws.close(CLOSE_NOT_FOUND, "Essay not found");
+  }
+  rooms.delete(room.shortId);
+}
+
+// Write the room's document through the regular update path, recording a revision
+// Timed saves are autosaves; an explicit save or the room closing keeps the revision
+function persist(room: Room, { autosave = false } = {}): void {
+  if (room.saveTimer) {
+    clearTimeout(room.saveTimer);
+    room.saveTimer = null;
+  }
+
+  const existing = essayQueries.findById.get(room.essayId);
+  if (!existing) {
+    closeDeletedRoom(room);
+    return;
+  }
+
+  // Never overwrite what was written outside the room since it last saved
+  const stored = toText(existing.content);
+  if (!stored.eq(room.savedDoc)) {
+    rebase(room, stored);
+  }
+
+  if (room.savedVersion === room.version) {
+    if (!autosave) recordRevision(existing);
+    return;
+  }
+
+  const essay = essayQueries.update.get(existing.title, room.doc.toString(), room.shortId, room.ownerId);
+  if (!essay) {
+    closeDeletedRoom(room);
+    return;
+  }
+
+  recordRevision(essay, { autosave });
+  room.savedDoc = room.doc;
+  room.savedVersion = room.version;
+  broadcast(room, {
+    type: "saved",
+    version: room.version,
+    essayVersion: essay.version,
+  });
+}
+
+function schedulePersist(room: Room): void {
+  if (room.saveTimer) clearTimeout(room.saveTimer);
+  room.saveTimer = setTimeout(() => {
+    try {
+      persist(room, { autosave: true });
+    } catch (error) {
+      console.error("Collab save error:", error);
+    }
+  }, SAVE_DELAY);
+}
+
+async function handleAuth(ws: CollabSocket, token: string): Promise<void> {
+  const payload = await verifySessionToken(token);
+  if (!payload) {
+    ws.close(CLOSE_UNAUTHORIZED, "Invalid or expired token");
+    return;
+  }
+
+  const essay = essayQueries.findByShortId.get(ws.data.shortId);
+  if (!essay) {
+    ws.close(CLOSE_NOT_FOUND, "Essay not found");
+    return;
+  }
+  if (!hasEssayRole(essay, payload.userId, "editor")) {
+    ws.close(CLOSE_FORBIDDEN, "Unauthorized");
+    return;
+  }
+
+  ws.data.userId = payload.userId;
+  ws.data.username = payload.username;
+  ws.data.sessionId = payload.sid;
+
+  let room = rooms.get(essay.short_id);
+  if (!room) {
+    room = {
+      essayId: essay.id,
+      shortId: essay.short_id,
+      ownerId: essay.user_id,
+      doc: toText(essay.content),
+      savedDoc: toText(essay.content),
+      version: 0,
+      savedVersion: 0,
+      sockets: new Set(),
+      saveTimer: null,
+    };
+    rooms.set(room.shortId, room);
+  }
+
+  send(ws, {
+    type: "init",
+    version: room.version,
+    doc: room.doc.toString(),
+    peers: [...room.sockets].map(toPeer),
+  });
+  broadcast(room, { type: "join", peer: toPeer(ws) });
+  room.sockets.add(ws);
+}
+
+// Disconnect a user whose access to an essay was withdrawn
+export function closeCollabSockets(shortId: string, userId: number): void {
+  const room = rooms.get(shortId);
+  if (!room) return;
+  for (const ws of room.sockets) {
+    if (ws.data.userId === userId) {
+      ws.close(CLOSE_FORBIDDEN, "Access to this essay was withdrawn");
+    }
+  }
+}
+
+function handlePush(ws: CollabSocket, room: Room, version: number, updates: WireUpdate[]): void {
+  // Revoked sessions stop editing immediately, not when the socket happens to close
+  if (!sessionQueries.findActiveById.get(ws.data.sessionId)) {
+    ws.close(CLOSE_UNAUTHORIZED, "Session revoked");
+    return;
+  }
+
+  // Pushes made against an older version are rejected; the client already has the updates
+  // it missed (they were broadcast before this reply) and will rebase and push again
+  if (version !== room.version) {
+    send(ws, { type: "pushed", ok: false });
+    return;
+  }
+
+  let doc = room.doc;
+  try {
+    for (const update of updates) {
+      doc = ChangeSet.fromJSON(update.changes).apply(doc);
+    }
+  } catch {
+    send(ws, { type: "error", error: "Invalid update" });
+    ws.close(CLOSE_INVALID, "Invalid update");
+    return;
+  }
+
+  if (doc.length > MAX_ESSAY_LENGTH) {
+    send(ws, { type: "error", error: `Essay content exceeds maximum length of ${MAX_ESSAY_LENGTH} characters` });
+    ws.close(CLOSE_INVALID, "Essay too long");
+    return;
+  }
+
+  room.doc = doc;
+  room.version += updates.length;
+  broadcast(room, { type: "updates", updates });
+  send(ws, { type: "pushed", ok: true });
+  schedulePersist(room);
+}
+
+function parseMessage(message: string | Buffer): ClientMessage | null {
+  try {
+    const data = JSON.parse(message.toString());
+    return data && typeof data.type === "string" ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+export const collabWebSocket: WebSocketHandler<CollabSocketData> = {
+  // A full-document paste arrives as a single push
+  maxPayloadLength: MAX_ESSAY_LENGTH * 4 + 64 * 1024,
+
+  async message(ws, raw) {
+    try {
+      const message = parseMessage(raw);
+      if (!message) {
+        ws.close(CLOSE_INVALID, "Invalid message");
+        return;
+      }
+
+      if (ws.data.userId === null) {
+        if (message.type === "auth" && typeof message.token === "string") {
+          await handleAuth(ws, message.token);
+        } else {
+          ws.close(CLOSE_UNAUTHORIZED, "Authentication required");
+        }
+        return;
+      }
+
+      const room = rooms.get(ws.data.shortId);
+      if (!room) return;
+
+      switch (message.type) {
+        case "push":
+          if (typeof message.version === "number" && Array.isArray(message.updates)) {
+            handlePush(ws, room, message.version, message.updates);
+          }
+          break;
+        case "cursor":
+          if (Number.isInteger(message.anchor) && Number.isInteger(message.head)) {
+            ws.data.cursor = { anchor: message.anchor, head: message.head };
+            broadcast(room, { type: "cursor", peer: toPeer(ws) }, ws);
+          }
+          break;
+        case "save":
+          persist(room);
+          break;
+      }
+    } catch (error) {
+      console.error("Collab message error:", error);
+      ws.close(1011, "Internal server error");
+    }
+  },
+
+  close(ws) {
+    const room = rooms.get(ws.data.shortId);
+    if (!room || !room.sockets.delete(ws)) return;
+
+    broadcast(room, { type: "leave", peer: ws.data.peer });
+
+    // Last editor out: save now and drop the room
+    if (room.sockets.size === 0) {
+      try {
+        persist(room);
+      } catch (error) {
+        console.error("Collab save error:", error);
+      }
+      rooms.delete(room.shortId);
+    }
+  },
+};
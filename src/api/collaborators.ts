@@ -0,0 +1,120 @@
+import { essayQueries, userQueries, collaboratorQueries } from "../db";
+import { hasEssayRole, isEssayRole } from "./essays";
+import { closeCollabSockets } from "./collab";
+import { decodeParam, type AuthenticatedRequest } from "./middleware";
+
+interface ShareEssayRequest {
+  role?: string;
+}
+
+// List who an essay is shared with (authenticated, any role)
+export async function getCollaborators(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const essay = essayQueries.findByShortId.get(req.params.id);
+    if (!essay) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(essay, req.userId, "viewer")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const author = userQueries.findById.get(essay.user_id);
+    return Response.json({
+      author: author?.username || "Unknown",
+      collaborators: collaboratorQueries.findByEssayId.all(essay.id).map(({ username, role, created_at }) => ({
+        username,
+        role,
+        created_at,
+      })),
+    });
+  } catch (error) {
+    console.error("Get collaborators error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Share an essay with a user or change their role (authenticated, owners only)
+export async function shareEssay(req: AuthenticatedRequest & { params: { id: string; username: string } }): Promise<Response> {
+  try {
+    const essay = essayQueries.findByShortId.get(req.params.id);
+    if (!essay) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(essay, req.userId, "owner")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const body: ShareEssayRequest = await req.json();
+    if (!isEssayRole(body.role)) {
+      return Response.json({ error: "Role must be viewer, editor or owner" }, { status: 400 });
+    }
+
+    const username = decodeParam(req.params.username);
+    if (!username) {
+      return Response.json({ error: "Invalid username" }, { status: 400 });
+    }
+    const user = userQueries.findByUsername.get(username);
+    if (!user) {
+      return Response.json({ error: "User not found" }, { status: 404 });
+    }
+    if (user.id === essay.user_id) {
+      return Response.json({ error: "The author already owns this essay" }, { status: 400 });
+    }
+
+    collaboratorQueries.upsert.run(essay.id, user.id, body.role);
+    // Viewers can't take part in live editing
+    if (body.role === "viewer") {
+      closeCollabSockets(essay.short_id, user.id);
+    }
+
+    return Response.json({
+      message: `Shared with ${user.username} as ${body.role}`,
+      collaborator: { username: user.username, role: body.role },
+    });
+  } catch (error) {
+    console.error("Share essay error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Stop sharing an essay with a user (authenticated, owners; collaborators may remove themselves)
+export async function unshareEssay(req: AuthenticatedRequest & { params: { id: string; username: string } }): Promise<Response> {
+  try {
+    const essay = essayQueries.findByShortId.get(req.params.id);
+    if (!essay) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+
+    const username = decodeParam(req.params.username);
+    if (!username) {
+      return Response.json({ error: "Invalid username" }, { status: 400 });
+    }
+    const user = userQueries.findByUsername.get(username);
+    if (!user) {
+      return Response.json({ error: "User not found" }, { status: 404 });
+    }
+    if (user.id !== req.userId && !hasEssayRole(essay, req.userId, "owner")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const removed = collaboratorQueries.delete.get(essay.id, user.id);
+    if (!removed) {
+      return Response.json({ error: `Essay is not shared with ${user.username}` }, { status: 404 });
+    }
+    closeCollabSockets(essay.short_id, user.id);
+
+    return Response.json({ message: `Stopped sharing with ${user.username}` });
+  } catch (error) {
+    console.error("Unshare essay error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
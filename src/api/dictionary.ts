@@ -0,0 +1,281 @@
+import { existsSync } from "fs";
+import { openDictionary } from "../db/dictionary";
+import { decodeParam } from "./middleware";
+
+// Word definitions and synonyms for the editor's Ctrl+D and Ctrl+Shift+D popups
+// Definitions are answered from the local dictionary database; the upstream service is only asked when
+// DICTIONARY_FALLBACK_URL is set, so lookups don't leave the server by default
+
+// Dictionary path - configurable via environment variable
+const DICTIONARY_PATH = process.env.DICTIONARY_PATH || "dictionary.db";
+
+// Upstream lookup, called as <url>/<word> and expected to answer like dictionaryapi.dev
+// e.g. https://api.dictionaryapi.dev/api/v2/entries/en
+const DICTIONARY_FALLBACK_URL = (process.env.DICTIONARY_FALLBACK_URL || "").replace(/\/+$/, "");
+
+// Words kept in each lookup cache, misses included
+const LOOKUP_CACHE_SIZE = 2000;
+
+// Give up on the upstream service after this long
+const FALLBACK_TIMEOUT = 5000;
+
+// Longest word or phrase looked up
+const MAX_WORD_LENGTH = 64;
+
+function loadDictionary() {
+  if (!existsSync(DICTIONARY_PATH)) {
+    console.log(`[dictionary] No dictionary at ${DICTIONARY_PATH}; build one with "bun run import-dictionary"`);
+    return null;
+  }
+
+  const dictionary = openDictionary(DICTIONARY_PATH);
+  if (!dictionary) {
+    console.warn(`[dictionary] ${DICTIONARY_PATH} was built by an older version; run "bun run import-dictionary" again`);
+    return null;
+  }
+
+  console.log(`[dictionary] Using dictionary: ${DICTIONARY_PATH}`);
+  return dictionary;
+}
+
+// null when no usable dictionary has been imported
+const dictionaryQueries = loadDictionary();
+
+if (DICTIONARY_FALLBACK_URL) {
+  console.log(`[dictionary] Falling back to ${DICTIONARY_FALLBACK_URL} for unknown words`);
+}
+
+interface Definition {
+  definition: string;
+  example?: string;
+}
+
+interface Meaning {
+  partOfSpeech: string;
+  definitions: Definition[];
+}
+
+interface DictionaryEntry {
+  word: string;
+  phonetic?: string;
+  phonetics?: { text?: string; audio?: string }[];
+  meanings: Meaning[];
+  source: "local" | "fallback";
+}
+
+interface ThesaurusMeaning {
+  partOfSpeech: string;
+  synonyms: string[];
+  antonyms: string[];
+}
+
+interface ThesaurusEntry {
+  word: string;
+  meanings: ThesaurusMeaning[];
+}
+
+// Least recently used entries are evicted first; Map keeps insertion order
+function createLookupCache<T>(size: number) {
+  const entries = new Map<string, T | null>();
+
+  return {
+    get(word: string): T | null | undefined {
+      return entries.get(word);
+    },
+    set(word: string, entry: T | null): void {
+      entries.delete(word);
+      entries.set(word, entry);
+      if (entries.size > size) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+  };
+}
+
+const definitionCache = createLookupCache<DictionaryEntry>(LOOKUP_CACHE_SIZE);
+const thesaurusCache = createLookupCache<ThesaurusEntry>(LOOKUP_CACHE_SIZE);
+
+// WordNet's suffix rules for getting from an inflected form back to the headword
+const DETACHMENTS: [string, string][] = [
+  ["s", ""], ["ses", "s"], ["xes", "x"], ["zes", "z"], ["ches", "ch"], ["shes", "sh"],
+  ["men", "man"], ["ies", "y"], ["es", "e"], ["es", ""], ["ed", "e"], ["ed", ""],
+  ["ing", "e"], ["ing", ""], ["er", ""], ["est", ""], ["er", "e"], ["est", "e"],
+];
+
+// The word itself, then its irregular base forms, then suffix-stripped guesses
+function candidateHeadwords(word: string): string[] {
+  const candidates = [word];
+  for (const { base } of dictionaryQueries!.findBaseForms.all(word)) {
+    candidates.push(base);
+  }
+  for (const [suffix, replacement] of DETACHMENTS) {
+    if (word.length > suffix.length + 1 && word.endsWith(suffix)) {
+      candidates.push(word.slice(0, -suffix.length) + replacement);
+    }
+  }
+  return [...new Set(candidates)];
+}
+
+// Answers for the first candidate headword the dictionary knows
+function findHeadword<T>(word: string, find: (headword: string) => T[]): { headword: string; rows: T[] } | null {
+  for (const headword of candidateHeadwords(word)) {
+    const rows = find(headword);
+    if (rows.length > 0) return { headword, rows };
+  }
+  return null;
+}
+
+function lookupLocal(word: string): DictionaryEntry | null {
+  if (!dictionaryQueries) return null;
+
+  const found = findHeadword(word, (headword) => dictionaryQueries.findSenses.all(headword));
+  if (!found) return null;
+
+  // Group senses by part of speech, in order of each one's most common sense
+  const meanings = new Map<string, Definition[]>();
+  for (const sense of found.rows) {
+    const definitions = meanings.get(sense.part_of_speech) ?? [];
+    definitions.push(sense.example
+      ? { definition: sense.definition, example: sense.example }
+      : { definition: sense.definition });
+    meanings.set(sense.part_of_speech, definitions);
+  }
+
+  return {
+    word: found.headword,
+    meanings: [...meanings].map(([partOfSpeech, definitions]) => ({ partOfSpeech, definitions })),
+    source: "local",
+  };
+}
+
+function lookupThesaurus(word: string): ThesaurusEntry | null {
+  if (!dictionaryQueries) return null;
+
+  const found = findHeadword(word, (headword) => [
+    ...dictionaryQueries.findSynonyms.all(headword).map((row) => ({ ...row, antonym: false })),
+    ...dictionaryQueries.findAntonyms.all(headword).map((row) => ({ ...row, antonym: true })),
+  ]);
+  if (!found) return null;
+
+  const meanings = new Map<string, { synonyms: Set<string>; antonyms: Set<string> }>();
+  for (const row of found.rows) {
+    const meaning = meanings.get(row.part_of_speech) ?? { synonyms: new Set(), antonyms: new Set() };
+    (row.antonym ? meaning.antonyms : meaning.synonyms).add(row.word);
+    meanings.set(row.part_of_speech, meaning);
+  }
+
+  return {
+    word: found.headword,
+    meanings: [...meanings].map(([partOfSpeech, { synonyms, antonyms }]) => ({
+      partOfSpeech,
+      synonyms: [...synonyms],
+      antonyms: [...antonyms],
+    })),
+  };
+}
+
+// Throws when the upstream service can't be reached, so the miss isn't cached
+async function lookupFallback(word: string): Promise<DictionaryEntry | null> {
+  const response = await fetch(`${DICTIONARY_FALLBACK_URL}/${encodeURIComponent(word)}`, {
+    signal: AbortSignal.timeout(FALLBACK_TIMEOUT),
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Upstream dictionary responded ${response.status}`);
+  }
+
+  const data = await response.json();
+  const entry = Array.isArray(data) ? data[0] : null;
+  if (!entry || !Array.isArray(entry.meanings)) return null;
+
+  return {
+    word: entry.word ?? word,
+    phonetic: entry.phonetic,
+    phonetics: entry.phonetics,
+    meanings: entry.meanings,
+    source: "fallback",
+  };
+}
+
+// Lowercased word from the route, or null if it isn't something worth looking up
+function parseWord(param: string): string | null {
+  const word = decodeParam(param)?.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!word || word.length > MAX_WORD_LENGTH || !/^[\p{L}][\p{L}\p{N}' .-]*$/u.test(word)) {
+    return null;
+  }
+  return word;
+}
+
+// Look up a word's definitions (public)
+export async function getDefinition(req: Request & { params: { word: string } }): Promise<Response> {
+  try {
+    const word = parseWord(req.params.word);
+    if (!word) {
+      return Response.json({ error: "Invalid word" }, { status: 400 });
+    }
+
+    let entry = definitionCache.get(word);
+    if (entry === undefined) {
+      entry = lookupLocal(word);
+      if (!entry && DICTIONARY_FALLBACK_URL) {
+        try {
+          entry = await lookupFallback(word);
+        } catch (error) {
+          console.warn(`[dictionary] Fallback lookup for "${word}" failed:`, error);
+          return Response.json({ error: "Dictionary service unavailable" }, { status: 502 });
+        }
+      }
+    }
+    definitionCache.set(word, entry);
+
+    if (!entry) {
+      if (!dictionaryQueries && !DICTIONARY_FALLBACK_URL) {
+        return Response.json({ error: "No dictionary is installed on this server" }, { status: 503 });
+      }
+      return Response.json({ error: "Word not found in dictionary" }, { status: 404 });
+    }
+
+    return Response.json({ entry }, {
+      headers: { "Cache-Control": "public, max-age=86400" },
+    });
+  } catch (error) {
+    console.error("Get definition error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Look up a word's synonyms and antonyms (public)
+export async function getSynonyms(req: Request & { params: { word: string } }): Promise<Response> {
+  try {
+    const word = parseWord(req.params.word);
+    if (!word) {
+      return Response.json({ error: "Invalid word" }, { status: 400 });
+    }
+    if (!dictionaryQueries) {
+      return Response.json({ error: "No dictionary is installed on this server" }, { status: 503 });
+    }
+
+    let entry = thesaurusCache.get(word);
+    if (entry === undefined) {
+      entry = lookupThesaurus(word);
+    }
+    thesaurusCache.set(word, entry);
+
+    if (!entry) {
+      return Response.json({ error: "No synonyms found" }, { status: 404 });
+    }
+
+    return Response.json({ entry }, {
+      headers: { "Cache-Control": "public, max-age=86400" },
+    });
+  } catch (error) {
+    console.error("Get synonyms error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,35 +1,279 @@
-import { essayQueries, userQueries, generateUniqueShortId, type Essay } from "../db";
+import {
+  essayQueries,
+  userQueries,
+  revisionQueries,
+  tagQueries,
+  collaboratorQueries,
+  previewKeyQueries,
+  setEssayTags,
+  generateUniqueShortId,
+  type Essay,
+  type EssayRole,
+  type EssayStatus,
+} from "../db";
+import { diffLines, diffStats } from "../lib/diff";
+import { toDbDate, parseDbDate } from "../lib/site";
+import { armPublishScheduler } from "./scheduler";
+import { isSpellingLanguage } from "./spelling";
 import type { AuthenticatedRequest } from "./middleware";
 
 // Maximum essay content length (default: 500KB)
-const MAX_ESSAY_LENGTH = parseInt(process.env.MAX_ESSAY_LENGTH || "500000", 10);
+export const MAX_ESSAY_LENGTH = parseInt(process.env.MAX_ESSAY_LENGTH || "500000", 10);
+
+// Maximum number of tags per essay
+const MAX_TAGS = 10;
+
+// Autosaves this soon after the revision a run of them started update it instead of adding another
+const REVISION_COALESCE_WINDOW = 10 * 60 * 1000;
 
 interface CreateEssayRequest {
   title: string;
   content: string;
+  tags?: string[];
 }
 
 interface UpdateEssayRequest {
   title?: string;
   content?: string;
+  tags?: string[];
+  version?: number; // Alternative to If-Match: the version the client loaded
+  autosave?: boolean; // Saved by the editor on its own, not by the writer
+}
+
+interface ScheduleEssayRequest {
+  publish_at: string; // ISO 8601 timestamp
+}
+
+interface SetTagsRequest {
+  tags: string[];
+}
+
+interface SetLanguageRequest {
+  language: string;
+}
+
+// Normalize a tag: lowercase, no leading '#', letters/digits/hyphens (1-32 chars)
+function normalizeTag(tag: string): string | null {
+  const name = tag.trim().replace(/^#/, "").toLowerCase();
+  return /^[a-z0-9][a-z0-9-]{0,31}$/.test(name) ? name : null;
+}
+
+// Validate and de-duplicate a list of tags from a request body
+export function parseTags(input: unknown): { tags: string[] } | { error: string } {
+  if (!Array.isArray(input)) {
+    return { error: "Tags must be an array of strings" };
+  }
+
+  const tags = new Set<string>();
+  for (const tag of input) {
+    const name = typeof tag === "string" ? normalizeTag(tag) : null;
+    if (!name) {
+      return { error: `Invalid tag: ${String(tag)}. Use letters, digits and hyphens (max 32 chars)` };
+    }
+    tags.add(name);
+  }
+
+  if (tags.size > MAX_TAGS) {
+    return { error: `An essay can have at most ${MAX_TAGS} tags` };
+  }
+
+  return { tags: [...tags] };
 }
 
-// Get all published essays (public)
-export async function getPublishedEssays(_req: Request): Promise<Response> {
+// Look up tag names for a set of essays in one query
+export function loadTags(essayIds: number[]): Map<number, string[]> {
+  const tags = new Map<number, string[]>();
+  if (essayIds.length === 0) return tags;
+
+  for (const row of tagQueries.findByEssayIds.all(JSON.stringify(essayIds))) {
+    const names = tags.get(row.essay_id) ?? [];
+    names.push(row.name);
+    tags.set(row.essay_id, names);
+  }
+  return tags;
+}
+
+export function getEssayTags(essayId: number): string[] {
+  return loadTags([essayId]).get(essayId) ?? [];
+}
+
+// Record a snapshot of an essay, skipping no-op saves
+// A run of autosaves updates one revision in place until the window from its first save ends;
+// an explicit save keeps the latest one for good. Revision numbers never change or disappear
+export function recordRevision(essay: Essay, { autosave = false } = {}): void {
+  const latest = revisionQueries.findLatest.get(essay.id);
+  if (latest && latest.title === essay.title && latest.content === essay.content) {
+    if (!autosave && latest.autosaved) {
+      revisionQueries.keep.run(latest.id);
+    }
+    return;
+  }
+
+  if (autosave && latest?.autosaved &&
+      Date.now() - parseDbDate(latest.created_at).getTime() < REVISION_COALESCE_WINDOW) {
+    revisionQueries.replace.get(essay.title, essay.content, latest.id);
+    return;
+  }
+  revisionQueries.create.get(essay.id, essay.id, essay.title, essay.content, autosave ? 1 : 0);
+}
+
+// Latest revision number of an essay; 0 for essays saved before revision tracking
+export function currentRevision(essayId: number): number {
+  return revisionQueries.findLatest.get(essayId)?.revision ?? 0;
+}
+
+const ESSAY_STATUSES: EssayStatus[] = ["draft", "unlisted", "published"];
+
+export function isEssayStatus(value: unknown): value is EssayStatus {
+  return ESSAY_STATUSES.includes(value as EssayStatus);
+}
+
+const ROLE_RANK: Record<EssayRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+export function isEssayRole(value: unknown): value is EssayRole {
+  return typeof value === "string" && value in ROLE_RANK;
+}
+
+// A user's role on an essay: the author owns it, anyone else needs it shared with them
+export function getEssayRole(essay: Essay, userId: number | undefined): EssayRole | null {
+  if (userId === undefined) return null;
+  if (essay.user_id === userId) return "owner";
+  return collaboratorQueries.findRole.get(essay.id, userId)?.role ?? null;
+}
+
+// Whether a user has at least the given role on an essay
+export function hasEssayRole(essay: Essay, userId: number | undefined, role: EssayRole): boolean {
+  const current = getEssayRole(essay, userId);
+  return current !== null && ROLE_RANK[current] >= ROLE_RANK[role];
+}
+
+// Usernames credited next to the author: collaborators who can edit
+export function getCoauthors(essayId: number): string[] {
+  return collaboratorQueries.findByEssayId.all(essayId)
+    .filter((collaborator) => collaborator.role !== "viewer")
+    .map((collaborator) => collaborator.username);
+}
+
+// Whether an essay can be read: unlisted and published essays by anyone with the link,
+// drafts by collaborators or with one of the essay's preview keys
+// Essays hidden by reports stay readable for collaborators and for admins reviewing them
+export function canReadEssay(essay: Essay, userId: number | undefined, previewKey: string | null): boolean {
+  if (essay.status !== "draft" && !essay.hidden_at) return true;
+  if (getEssayRole(essay, userId)) return true;
+  if (essay.hidden_at) {
+    return userId !== undefined && !!userQueries.findById.get(userId)?.is_admin;
+  }
+  return !!previewKey && !!previewKeyQueries.findOne.get(essay.id, previewKey);
+}
+
+// Entity tag sent as ETag and expected back in If-Match when updating
+function versionTag(version: number): string {
+  return `"${version}"`;
+}
+
+// Whether an If-Match header matches the essay's current version
+function matchesVersion(ifMatch: string, version: number): boolean {
+  const tag = versionTag(version);
+  return ifMatch.split(",").some((candidate) => {
+    const value = candidate.trim();
+    return value === "*" || value === tag;
+  });
+}
+
+// Page size limits for essay listings
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+interface PageCursor {
+  updatedAt: string;
+  id: number;
+}
+
+// Cursors are opaque to clients: base64url of the last row's sort key
+function encodeCursor(essay: Essay): string {
+  return Buffer.from(JSON.stringify([essay.updated_at, essay.id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): PageCursor | null {
   try {
-    const essays = essayQueries.findPublished.all();
+    const [updatedAt, id] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (typeof updatedAt !== "string" || typeof id !== "number") return null;
+    return { updatedAt, id };
+  } catch {
+    return null;
+  }
+}
 
-    // Add author info and use short_id as id
-    const essaysWithAuthors = essays.map((essay) => {
-      const user = userQueries.findById.get(essay.user_id);
-      return {
-        ...essay,
-        id: essay.short_id,
-        author: user?.username || "Unknown",
-      };
-    });
+// Parse ?limit=, ?cursor= and ?tag= query parameters
+export function parsePagination(url: URL): { limit: number; cursor: PageCursor | null; tag: string | null } | { error: string } {
+  const limitParam = url.searchParams.get("limit");
+  const cursorParam = url.searchParams.get("cursor");
+  const tagParam = url.searchParams.get("tag");
+
+  let limit = DEFAULT_PAGE_SIZE;
+  if (limitParam !== null) {
+    limit = parseInt(limitParam, 10);
+    if (isNaN(limit) || limit < 1) {
+      return { error: "Invalid limit" };
+    }
+    limit = Math.min(limit, MAX_PAGE_SIZE);
+  }
+
+  let cursor: PageCursor | null = null;
+  if (cursorParam) {
+    cursor = decodeCursor(cursorParam);
+    if (!cursor) {
+      return { error: "Invalid cursor" };
+    }
+  }
+
+  let tag: string | null = null;
+  if (tagParam) {
+    tag = normalizeTag(tagParam);
+    if (!tag) {
+      return { error: "Invalid tag" };
+    }
+  }
+
+  return { limit, cursor, tag };
+}
+
+// Split a limit+1 result set into a page and the cursor for the next one
+export function toPage<T extends Essay>(rows: T[], limit: number): { items: T[]; nextCursor: string | null } {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > limit && last ? encodeCursor(last) : null,
+  };
+}
 
-    return Response.json({ essays: essaysWithAuthors });
+// Get published essays (public, paginated)
+export async function getPublishedEssays(req: Request): Promise<Response> {
+  try {
+    const pagination = parsePagination(new URL(req.url));
+    if ("error" in pagination) {
+      return Response.json({ error: pagination.error }, { status: 400 });
+    }
+
+    const { limit, cursor, tag } = pagination;
+    const rows = essayQueries.findPublishedPage.all(
+      tag,
+      cursor?.updatedAt ?? null,
+      cursor?.id ?? null,
+      limit + 1
+    );
+    const { items, nextCursor } = toPage(rows, limit);
+    const tags = loadTags(items.map((essay) => essay.id));
+
+    // Use short_id as id
+    const essays = items.map((essay) => ({
+      ...essay,
+      id: essay.short_id,
+      tags: tags.get(essay.id) ?? [],
+    }));
+
+    return Response.json({ essays, nextCursor });
   } catch (error) {
     console.error("Get published essays error:", error);
     return Response.json(
@@ -39,18 +283,33 @@ export async function getPublishedEssays(_req: Request): Promise<Response> {
   }
 }
 
-// Get user's essays (authenticated)
+// Get user's essays and essays shared with them (authenticated, paginated)
 export async function getUserEssays(req: AuthenticatedRequest): Promise<Response> {
   try {
-    const essays = essayQueries.findByUserId.all(req.userId);
+    const pagination = parsePagination(new URL(req.url));
+    if ("error" in pagination) {
+      return Response.json({ error: pagination.error }, { status: 400 });
+    }
+
+    const { limit, cursor, tag } = pagination;
+    const rows = essayQueries.findByUserIdPage.all(
+      req.userId,
+      tag,
+      cursor?.updatedAt ?? null,
+      cursor?.id ?? null,
+      limit + 1
+    );
+    const { items, nextCursor } = toPage(rows, limit);
+    const tags = loadTags(items.map((essay) => essay.id));
 
     // Use short_id as id
-    const essaysWithShortId = essays.map((essay) => ({
+    const essays = items.map((essay) => ({
       ...essay,
       id: essay.short_id,
+      tags: tags.get(essay.id) ?? [],
     }));
 
-    return Response.json({ essays: essaysWithShortId });
+    return Response.json({ essays, nextCursor });
   } catch (error) {
     console.error("Get user essays error:", error);
     return Response.json(
@@ -60,6 +319,51 @@ export async function getUserEssays(req: AuthenticatedRequest): Promise<Response
   }
 }
 
+// Maximum number of search results returned
+const SEARCH_LIMIT = 25;
+
+// Convert free-form user input into a safe FTS5 query
+// Each word becomes a quoted prefix term, so FTS syntax characters can't break the query
+function toFtsQuery(query: string): string | null {
+  const terms = query.match(/[\p{L}\p{N}_]+/gu);
+  if (!terms) return null;
+  return terms.map((term) => `"${term}"*`).join(" ");
+}
+
+// Full-text search over published essays (public)
+export async function searchEssays(req: Request): Promise<Response> {
+  try {
+    const url = new URL(req.url);
+    const query = url.searchParams.get("q")?.trim() || "";
+
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) {
+      return Response.json(
+        { error: "Search query is required" },
+        { status: 400 }
+      );
+    }
+
+    const results = essayQueries.search.all(ftsQuery, SEARCH_LIMIT);
+    const tags = loadTags(results.map((result) => result.id));
+
+    return Response.json({
+      query,
+      results: results.map((result) => ({
+        ...result,
+        id: result.short_id,
+        tags: tags.get(result.id) ?? [],
+      })),
+    });
+  } catch (error) {
+    console.error("Search essays error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
 // Get single essay
 export async function getEssay(req: Request & { params: { id: string }; userId?: number }): Promise<Response> {
   try {
@@ -73,10 +377,11 @@ export async function getEssay(req: Request & { params: { id: string }; userId?:
       return Response.json({ error: "Essay not found" }, { status: 404 });
     }
 
-    // Check access: published essays are public, drafts only for owner
-    if (essay.status === "draft" && essay.user_id !== req.userId) {
+    // Check access: drafts only for the author, collaborators and preview key holders
+    if (!canReadEssay(essay, req.userId, new URL(req.url).searchParams.get("key"))) {
       return Response.json({ error: "Essay not found" }, { status: 404 });
     }
+    const role = getEssayRole(essay, req.userId);
 
     // Add author info
     const user = userQueries.findById.get(essay.user_id);
@@ -85,8 +390,11 @@ export async function getEssay(req: Request & { params: { id: string }; userId?:
         ...essay,
         id: essay.short_id, // Use short_id as the public ID
         author: user?.username || "Unknown",
+        coauthors: getCoauthors(essay.id),
+        tags: getEssayTags(essay.id),
+        role,
       },
-    });
+    }, { headers: { "ETag": versionTag(essay.version) } });
   } catch (error) {
     console.error("Get essay error:", error);
     return Response.json(
@@ -102,6 +410,15 @@ export async function createEssay(req: AuthenticatedRequest): Promise<Response>
     const body: CreateEssayRequest = await req.json();
     const { title, content } = body;
 
+    let tags: string[] = [];
+    if (body.tags !== undefined) {
+      const parsed = parseTags(body.tags);
+      if ("error" in parsed) {
+        return Response.json({ error: parsed.error }, { status: 400 });
+      }
+      tags = parsed.tags;
+    }
+
     if (!title || title.trim().length === 0) {
       return Response.json(
         { error: "Title is required" },
@@ -132,13 +449,17 @@ export async function createEssay(req: AuthenticatedRequest): Promise<Response>
       );
     }
 
+    recordRevision(essay);
+    setEssayTags(essay.id, tags);
+
     return Response.json({
       message: "Essay created",
       essay: {
         ...essay,
         id: essay.short_id, // Use short_id as the public ID
+        tags,
       },
-    }, { status: 201 });
+    }, { status: 201, headers: { "ETag": versionTag(essay.version) } });
   } catch (error) {
     console.error("Create essay error:", error);
     return Response.json(
@@ -156,16 +477,40 @@ export async function updateEssay(req: AuthenticatedRequest & { params: { id: st
       return Response.json({ error: "Invalid essay ID" }, { status: 400 });
     }
 
-    // Check ownership
+    // Check access
     const existing = essayQueries.findByShortId.get(shortId);
     if (!existing) {
       return Response.json({ error: "Essay not found" }, { status: 404 });
     }
-    if (existing.user_id !== req.userId) {
+    if (!hasEssayRole(existing, req.userId, "editor")) {
       return Response.json({ error: "Unauthorized" }, { status: 403 });
     }
 
     const body: UpdateEssayRequest = await req.json();
+
+    // Optimistic concurrency: reject writes based on a stale copy instead of clobbering
+    const ifMatch = req.headers.get("If-Match");
+    if (!ifMatch && body.version === undefined) {
+      return Response.json(
+        { error: "If-Match header or version is required" },
+        { status: 428 }
+      );
+    }
+
+    const isCurrent = ifMatch
+      ? matchesVersion(ifMatch, existing.version)
+      : body.version === existing.version;
+    if (!isCurrent) {
+      return Response.json({
+        error: "Essay was changed elsewhere",
+        essay: {
+          ...existing,
+          id: existing.short_id,
+          tags: getEssayTags(existing.id),
+        },
+      }, { status: 409, headers: { "ETag": versionTag(existing.version) } });
+    }
+
     const title = body.title?.trim() || existing.title;
     const content = body.content ?? existing.content;
 
@@ -180,7 +525,21 @@ export async function updateEssay(req: AuthenticatedRequest & { params: { id: st
       );
     }
 
-    const essay = essayQueries.update.get(title, content, shortId, req.userId);
+    let tags: string[] | null = null;
+    if (body.tags !== undefined) {
+      const parsed = parseTags(body.tags);
+      if ("error" in parsed) {
+        return Response.json({ error: parsed.error }, { status: 400 });
+      }
+      tags = parsed.tags;
+    }
+
+    // Essays created before revision tracking get their prior state snapshotted first
+    if (currentRevision(existing.id) === 0) {
+      recordRevision(existing);
+    }
+
+    const essay = essayQueries.update.get(title, content, shortId, existing.user_id);
     if (!essay) {
       return Response.json(
         { error: "Failed to update essay" },
@@ -188,13 +547,19 @@ export async function updateEssay(req: AuthenticatedRequest & { params: { id: st
       );
     }
 
+    recordRevision(essay, { autosave: body.autosave === true });
+    if (tags) {
+      setEssayTags(essay.id, tags);
+    }
+
     return Response.json({
       message: "Essay updated",
       essay: {
         ...essay,
         id: essay.short_id,
+        tags: tags ?? getEssayTags(essay.id),
       },
-    });
+    }, { headers: { "ETag": versionTag(essay.version) } });
   } catch (error) {
     console.error("Update essay error:", error);
     return Response.json(
@@ -212,16 +577,16 @@ export async function deleteEssay(req: AuthenticatedRequest & { params: { id: st
       return Response.json({ error: "Invalid essay ID" }, { status: 400 });
     }
 
-    // Check ownership
+    // Check access
     const existing = essayQueries.findByShortId.get(shortId);
     if (!existing) {
       return Response.json({ error: "Essay not found" }, { status: 404 });
     }
-    if (existing.user_id !== req.userId) {
+    if (!hasEssayRole(existing, req.userId, "owner")) {
       return Response.json({ error: "Unauthorized" }, { status: 403 });
     }
 
-    essayQueries.delete.run(shortId, req.userId);
+    essayQueries.delete.run(shortId, existing.user_id);
 
     return Response.json({ message: "Essay deleted" });
   } catch (error) {
@@ -241,16 +606,16 @@ export async function publishEssay(req: AuthenticatedRequest & { params: { id: s
       return Response.json({ error: "Invalid essay ID" }, { status: 400 });
     }
 
-    // Check ownership
+    // Check access
     const existing = essayQueries.findByShortId.get(shortId);
     if (!existing) {
       return Response.json({ error: "Essay not found" }, { status: 404 });
     }
-    if (existing.user_id !== req.userId) {
+    if (!hasEssayRole(existing, req.userId, "owner")) {
       return Response.json({ error: "Unauthorized" }, { status: 403 });
     }
 
-    const essay = essayQueries.updateStatus.get("published", shortId, req.userId);
+    const essay = essayQueries.updateStatus.get("published", shortId, existing.user_id);
     if (!essay) {
       return Response.json(
         { error: "Failed to publish essay" },
@@ -263,6 +628,7 @@ export async function publishEssay(req: AuthenticatedRequest & { params: { id: s
       essay: {
         ...essay,
         id: essay.short_id,
+        tags: getEssayTags(essay.id),
       },
     });
   } catch (error) {
@@ -274,6 +640,143 @@ export async function publishEssay(req: AuthenticatedRequest & { params: { id: s
   }
 }
 
+// Schedule an essay to be published later (authenticated)
+export async function scheduleEssay(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const shortId = req.params.id;
+    if (!shortId || shortId.length === 0) {
+      return Response.json({ error: "Invalid essay ID" }, { status: 400 });
+    }
+
+    // Check access
+    const existing = essayQueries.findByShortId.get(shortId);
+    if (!existing) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(existing, req.userId, "owner")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+    if (existing.status === "published") {
+      return Response.json({ error: "Essay is already published" }, { status: 400 });
+    }
+
+    const body: ScheduleEssayRequest = await req.json();
+    const publishAt = toDbDate(body.publish_at);
+    if (!publishAt) {
+      return Response.json({ error: "publish_at must be an ISO 8601 timestamp" }, { status: 400 });
+    }
+    if (parseDbDate(publishAt).getTime() <= Date.now()) {
+      return Response.json({ error: "publish_at must be in the future" }, { status: 400 });
+    }
+
+    const essay = essayQueries.setPublishAt.get(publishAt, shortId);
+    if (!essay) {
+      return Response.json(
+        { error: "Failed to schedule essay" },
+        { status: 500 }
+      );
+    }
+    armPublishScheduler();
+
+    return Response.json({
+      message: "Essay scheduled",
+      essay: {
+        ...essay,
+        id: essay.short_id,
+        tags: getEssayTags(essay.id),
+      },
+    });
+  } catch (error) {
+    console.error("Schedule essay error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel a scheduled publish (authenticated)
+export async function cancelSchedule(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const shortId = req.params.id;
+    if (!shortId || shortId.length === 0) {
+      return Response.json({ error: "Invalid essay ID" }, { status: 400 });
+    }
+
+    // Check access
+    const existing = essayQueries.findByShortId.get(shortId);
+    if (!existing) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(existing, req.userId, "owner")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+    if (!existing.publish_at) {
+      return Response.json({ error: "Essay is not scheduled" }, { status: 404 });
+    }
+
+    const essay = essayQueries.setPublishAt.get(null, shortId);
+    armPublishScheduler();
+
+    return Response.json({
+      message: "Schedule cancelled",
+      essay: essay && {
+        ...essay,
+        id: essay.short_id,
+        tags: getEssayTags(essay.id),
+      },
+    });
+  } catch (error) {
+    console.error("Cancel schedule error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Unlist essay: readable with the link, hidden from listings (authenticated)
+export async function unlistEssay(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const shortId = req.params.id;
+    if (!shortId || shortId.length === 0) {
+      return Response.json({ error: "Invalid essay ID" }, { status: 400 });
+    }
+
+    // Check access
+    const existing = essayQueries.findByShortId.get(shortId);
+    if (!existing) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(existing, req.userId, "owner")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const essay = essayQueries.updateStatus.get("unlisted", shortId, existing.user_id);
+    if (!essay) {
+      return Response.json(
+        { error: "Failed to unlist essay" },
+        { status: 500 }
+      );
+    }
+
+    return Response.json({
+      message: "Essay unlisted",
+      essay: {
+        ...essay,
+        id: essay.short_id,
+        tags: getEssayTags(essay.id),
+      },
+    });
+  } catch (error) {
+    console.error("Unlist essay error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
 // Unpublish essay (authenticated)
 export async function unpublishEssay(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
   try {
@@ -282,16 +785,16 @@ export async function unpublishEssay(req: AuthenticatedRequest & { params: { id:
       return Response.json({ error: "Invalid essay ID" }, { status: 400 });
     }
 
-    // Check ownership
+    // Check access
     const existing = essayQueries.findByShortId.get(shortId);
     if (!existing) {
       return Response.json({ error: "Essay not found" }, { status: 404 });
     }
-    if (existing.user_id !== req.userId) {
+    if (!hasEssayRole(existing, req.userId, "owner")) {
       return Response.json({ error: "Unauthorized" }, { status: 403 });
     }
 
-    const essay = essayQueries.updateStatus.get("draft", shortId, req.userId);
+    const essay = essayQueries.updateStatus.get("draft", shortId, existing.user_id);
     if (!essay) {
       return Response.json(
         { error: "Failed to unpublish essay" },
@@ -304,6 +807,7 @@ export async function unpublishEssay(req: AuthenticatedRequest & { params: { id:
       essay: {
         ...essay,
         id: essay.short_id,
+        tags: getEssayTags(essay.id),
       },
     });
   } catch (error) {
@@ -314,3 +818,275 @@ export async function unpublishEssay(req: AuthenticatedRequest & { params: { id:
     );
   }
 }
+
+// List revisions of an essay (authenticated)
+export async function getRevisions(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const shortId = req.params.id;
+    if (!shortId || shortId.length === 0) {
+      return Response.json({ error: "Invalid essay ID" }, { status: 400 });
+    }
+
+    // Check access
+    const existing = essayQueries.findByShortId.get(shortId);
+    if (!existing) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(existing, req.userId, "viewer")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const revisions = revisionQueries.findByEssayId.all(existing.id);
+
+    return Response.json({ revisions });
+  } catch (error) {
+    console.error("Get revisions error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Get a single revision with content (authenticated)
+export async function getRevision(req: AuthenticatedRequest & { params: { id: string; rev: string } }): Promise<Response> {
+  try {
+    const shortId = req.params.id;
+    if (!shortId || shortId.length === 0) {
+      return Response.json({ error: "Invalid essay ID" }, { status: 400 });
+    }
+
+    const revisionNumber = parseInt(req.params.rev, 10);
+    if (isNaN(revisionNumber)) {
+      return Response.json({ error: "Invalid revision number" }, { status: 400 });
+    }
+
+    // Check access
+    const existing = essayQueries.findByShortId.get(shortId);
+    if (!existing) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(existing, req.userId, "viewer")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const revision = revisionQueries.findOne.get(existing.id, revisionNumber);
+    if (!revision) {
+      return Response.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    return Response.json({ revision });
+  } catch (error) {
+    console.error("Get revision error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Diff two revisions of an essay (authenticated)
+// Query: ?from=<rev>&to=<rev> - "to" defaults to the latest revision
+export async function diffRevisions(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const shortId = req.params.id;
+    if (!shortId || shortId.length === 0) {
+      return Response.json({ error: "Invalid essay ID" }, { status: 400 });
+    }
+
+    const url = new URL(req.url);
+    const from = parseInt(url.searchParams.get("from") || "", 10);
+    const toParam = url.searchParams.get("to");
+    if (isNaN(from)) {
+      return Response.json({ error: "Query parameter 'from' is required" }, { status: 400 });
+    }
+
+    // Check access
+    const existing = essayQueries.findByShortId.get(shortId);
+    if (!existing) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(existing, req.userId, "viewer")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const fromRevision = revisionQueries.findOne.get(existing.id, from);
+    const toRevision = toParam
+      ? revisionQueries.findOne.get(existing.id, parseInt(toParam, 10))
+      : revisionQueries.findLatest.get(existing.id);
+    if (!fromRevision || !toRevision) {
+      return Response.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    const diff = diffLines(fromRevision.content, toRevision.content);
+
+    return Response.json({
+      from: fromRevision.revision,
+      to: toRevision.revision,
+      title: fromRevision.title !== toRevision.title
+        ? { from: fromRevision.title, to: toRevision.title }
+        : null,
+      stats: diffStats(diff),
+      diff,
+    });
+  } catch (error) {
+    console.error("Diff revisions error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Restore an essay to an earlier revision (authenticated)
+// Restoring records a new revision, so history is never rewritten
+export async function restoreRevision(req: AuthenticatedRequest & { params: { id: string; rev: string } }): Promise<Response> {
+  try {
+    const shortId = req.params.id;
+    if (!shortId || shortId.length === 0) {
+      return Response.json({ error: "Invalid essay ID" }, { status: 400 });
+    }
+
+    const revisionNumber = parseInt(req.params.rev, 10);
+    if (isNaN(revisionNumber)) {
+      return Response.json({ error: "Invalid revision number" }, { status: 400 });
+    }
+
+    // Check access
+    const existing = essayQueries.findByShortId.get(shortId);
+    if (!existing) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(existing, req.userId, "editor")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const revision = revisionQueries.findOne.get(existing.id, revisionNumber);
+    if (!revision) {
+      return Response.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    const essay = essayQueries.update.get(revision.title, revision.content, shortId, existing.user_id);
+    if (!essay) {
+      return Response.json(
+        { error: "Failed to restore revision" },
+        { status: 500 }
+      );
+    }
+
+    recordRevision(essay);
+
+    return Response.json({
+      message: `Essay restored to revision ${revision.revision}`,
+      essay: {
+        ...essay,
+        id: essay.short_id,
+        tags: getEssayTags(essay.id),
+      },
+    }, { headers: { "ETag": versionTag(essay.version) } });
+  } catch (error) {
+    console.error("Restore revision error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Replace the tags on an essay (authenticated)
+export async function setTags(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const shortId = req.params.id;
+    if (!shortId || shortId.length === 0) {
+      return Response.json({ error: "Invalid essay ID" }, { status: 400 });
+    }
+
+    // Check access
+    const existing = essayQueries.findByShortId.get(shortId);
+    if (!existing) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(existing, req.userId, "editor")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const body: SetTagsRequest = await req.json();
+    const parsed = parseTags(body.tags);
+    if ("error" in parsed) {
+      return Response.json({ error: parsed.error }, { status: 400 });
+    }
+
+    setEssayTags(existing.id, parsed.tags);
+    const essay = essayQueries.bumpVersion.get(existing.id)!;
+
+    return Response.json({
+      message: "Tags updated",
+      tags: parsed.tags,
+    }, { headers: { "ETag": versionTag(essay.version) } });
+  } catch (error) {
+    console.error("Set tags error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Set the language an essay is spell checked in (authenticated, editors and owners)
+export async function setLanguage(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const existing = essayQueries.findByShortId.get(req.params.id);
+    if (!existing) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(existing, req.userId, "editor")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const body: SetLanguageRequest = await req.json();
+    if (!isSpellingLanguage(body.language)) {
+      return Response.json({ error: "No dictionary is installed for that language" }, { status: 400 });
+    }
+
+    const essay = essayQueries.setLanguage.get(body.language, existing.short_id)!;
+
+    return Response.json({
+      message: `Spell checking in ${essay.language}`,
+      language: essay.language,
+    });
+  } catch (error) {
+    console.error("Set language error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// List tags used on published essays with counts (public)
+export async function getPublicTags(_req: Request): Promise<Response> {
+  try {
+    const tags = tagQueries.countPublished.all();
+    return Response.json({ tags });
+  } catch (error) {
+    console.error("Get public tags error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// List tags used on the user's own essays with counts (authenticated)
+export async function getUserTags(req: AuthenticatedRequest): Promise<Response> {
+  try {
+    const tags = tagQueries.countByUserId.all(req.userId);
+    return Response.json({ tags });
+  } catch (error) {
+    console.error("Get user tags error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { essayQueries, userQueries, type EssayWithAuthor } from "../db";
+import { renderRssFeed, renderAtomFeed, feedLastModified, type FeedFormat, type FeedInfo } from "../lib/feed";
+import { getSiteUrl, SITE_NAME } from "../lib/site";
+
+// Number of most recent essays included in each feed
+const FEED_SIZE = 20;
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+};
+
+// Render a feed, answering conditional requests with 304 before doing any markdown work
+function feedResponse(req: Request, format: FeedFormat, info: FeedInfo, essays: EssayWithAuthor[]): Response {
+  const lastModified = feedLastModified(essays);
+  const fingerprint = essays.map((essay) => `${essay.id}:${essay.updated_at}`).join(",");
+  const etag = `W/"${format}-${Bun.hash(`${info.feedUrl}|${fingerprint}`).toString(36)}"`;
+
+  const headers = {
+    "Content-Type": CONTENT_TYPES[format],
+    "ETag": etag,
+    "Last-Modified": lastModified.toUTCString(),
+    "Cache-Control": "public, max-age=300",
+  };
+
+  // If-None-Match takes precedence over If-Modified-Since (RFC 9110)
+  const ifNoneMatch = req.headers.get("If-None-Match");
+  const ifModifiedSince = req.headers.get("If-Modified-Since");
+  if (ifNoneMatch) {
+    if (ifNoneMatch.split(",").some((tag) => tag.trim() === etag || tag.trim() === "*")) {
+      return new Response(null, { status: 304, headers });
+    }
+  } else if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    if (!isNaN(since) && lastModified.getTime() <= since) {
+      return new Response(null, { status: 304, headers });
+    }
+  }
+
+  const siteUrl = getSiteUrl(req);
+  const body = format === "atom"
+    ? renderAtomFeed(info, essays, siteUrl)
+    : renderRssFeed(info, essays, siteUrl);
+
+  return new Response(body, { headers });
+}
+
+// Site-wide feed of published essays (public)
+export async function getSiteFeed(req: Request & { params: { format: FeedFormat } }): Promise<Response> {
+  try {
+    const essays = essayQueries.findPublishedPage.all(null, null, null, FEED_SIZE);
+    const siteUrl = getSiteUrl(req);
+
+    return feedResponse(req, req.params.format, {
+      title: SITE_NAME,
+      description: `Recently published essays on ${SITE_NAME}`,
+      siteUrl,
+      feedUrl: `${siteUrl}${new URL(req.url).pathname}`,
+    }, essays);
+  } catch (error) {
+    console.error("Site feed error:", error);
+    return new Response("Internal server error", { status: 500 });
+  }
+}
+
+// Feed of a single author's published essays (public)
+export async function getAuthorFeed(req: Request & { params: { username: string; format: FeedFormat } }): Promise<Response> {
+  try {
+    const user = userQueries.findByUsername.get(req.params.username);
+    if (!user) {
+      return new Response("Author not found", { status: 404 });
+    }
+
+    const essays = essayQueries.findPublishedByUserIdPage.all(user.id, null, null, FEED_SIZE);
+    const siteUrl = getSiteUrl(req);
+
+    return feedResponse(req, req.params.format, {
+      title: `${user.display_name || user.username} - ${SITE_NAME}`,
+      description: `Essays by ${user.username} on ${SITE_NAME}`,
+      siteUrl: `${siteUrl}/u/${user.username}`,
+      feedUrl: `${siteUrl}${new URL(req.url).pathname}`,
+    }, essays);
+  } catch (error) {
+    console.error("Author feed error:", error);
+    return new Response("Internal server error", { status: 500 });
+  }
+}
@@ -1,13 +1,28 @@
-import { verifyToken, extractToken } from "../lib/jwt";
+import { verifyToken, extractToken, type JWTPayload } from "../lib/jwt";
+import { sessionQueries, userQueries } from "../db";
+import { TRUST_PROXY } from "../lib/site";
 
 export interface AuthenticatedRequest extends Request {
   userId: number;
   username: string;
+  sessionId: string;
 }
 
 export type RouteHandler = (req: Request) => Promise<Response> | Response;
 export type AuthenticatedRouteHandler = (req: AuthenticatedRequest) => Promise<Response> | Response;
 
+// Tokens are only honored while their session is active
+// Tokens issued before sessions existed carry no session id
+function hasActiveSession(sessionId: string | undefined): boolean {
+  return !!sessionId && !!sessionQueries.findActiveById.get(sessionId);
+}
+
+// Verify a token that didn't arrive in an Authorization header (e.g. over a WebSocket)
+export async function verifySessionToken(token: string): Promise<JWTPayload | null> {
+  const payload = await verifyToken(token);
+  return payload && hasActiveSession(payload.sid) ? payload : null;
+}
+
 // Middleware to require authentication
 export function requireAuth(handler: AuthenticatedRouteHandler): RouteHandler {
   return async (req: Request): Promise<Response> => {
@@ -22,7 +37,7 @@ export function requireAuth(handler: AuthenticatedRouteHandler): RouteHandler {
     }
 
     const payload = await verifyToken(token);
-    if (!payload) {
+    if (!payload || !hasActiveSession(payload.sid)) {
       return Response.json(
         { error: "Invalid or expired token" },
         { status: 401 }
@@ -33,11 +48,26 @@ export function requireAuth(handler: AuthenticatedRouteHandler): RouteHandler {
     const authenticatedReq = req as AuthenticatedRequest;
     authenticatedReq.userId = payload.userId;
     authenticatedReq.username = payload.username;
+    authenticatedReq.sessionId = payload.sid;
 
     return handler(authenticatedReq);
   };
 }
 
+// Middleware to require an admin account
+// The flag is read from the database on every request, so revoking admin takes effect at once
+export function requireAdmin(handler: AuthenticatedRouteHandler): RouteHandler {
+  return requireAuth((req) => {
+    if (!userQueries.findById.get(req.userId)?.is_admin) {
+      return Response.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+    return handler(req);
+  });
+}
+
 // Optional auth - adds user info if token present, but doesn't require it
 export function optionalAuth(handler: (req: Request & { userId?: number; username?: string }) => Promise<Response> | Response): RouteHandler {
   return async (req: Request): Promise<Response> => {
@@ -46,12 +76,160 @@ export function optionalAuth(handler: (req: Request & { userId?: number; usernam
 
     if (token) {
       const payload = await verifyToken(token);
-      if (payload) {
+      if (payload && hasActiveSession(payload.sid)) {
         (req as AuthenticatedRequest).userId = payload.userId;
         (req as AuthenticatedRequest).username = payload.username;
+        (req as AuthenticatedRequest).sessionId = payload.sid;
       }
     }
 
     return handler(req);
   };
 }
+
+// Socket addresses recorded by the server, used when no proxy header applies
+const socketAddresses = new WeakMap<Request, string>();
+
+export function recordSocketAddress(req: Request, address: string | undefined): void {
+  if (address) socketAddresses.set(req, address);
+}
+
+// Client IP, taken from the proxy's X-Forwarded-For entry when trusted
+export function getClientIp(req: Request): string | null {
+  if (TRUST_PROXY) {
+    // The rightmost entry is the one our proxy appended; earlier ones are client-supplied
+    const forwarded = req.headers.get("X-Forwarded-For")?.split(",").pop()?.trim();
+    if (forwarded) return forwarded;
+  }
+  return socketAddresses.get(req) ?? null;
+}
+
+// Path parameter with its percent escapes decoded, or null when they're malformed (e.g. a bare "%")
+export function decodeParam(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+// Login rate limits (attempts per window), configurable via env
+const LOGIN_RATE_WINDOW = parseInt(process.env.LOGIN_RATE_WINDOW || "900", 10);
+const LOGIN_MAX_ATTEMPTS_PER_IP = parseInt(process.env.LOGIN_MAX_ATTEMPTS_PER_IP || "20", 10);
+const LOGIN_MAX_FAILURES_PER_USER = parseInt(process.env.LOGIN_MAX_FAILURES_PER_USER || "5", 10);
+
+console.log(
+  `[ratelimit] Login: ${LOGIN_MAX_ATTEMPTS_PER_IP} attempts per IP, ` +
+  `${LOGIN_MAX_FAILURES_PER_USER} failures per username, per ${LOGIN_RATE_WINDOW} seconds`
+);
+
+interface RateLimitBucket {
+  count: number;
+  resetAt: number;
+}
+
+// Fixed-window counter keyed by an arbitrary string (IP, username, ...)
+// State is in-memory, which is fine for our single-process server
+function createRateLimiter(limit: number, windowSeconds: number) {
+  const buckets = new Map<string, RateLimitBucket>();
+  const windowMs = windowSeconds * 1000;
+
+  // Drop expired buckets so the map doesn't grow without bound
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, bucket] of buckets) {
+      if (bucket.resetAt <= now) buckets.delete(key);
+    }
+  }, 60_000).unref();
+
+  return {
+    // Seconds until the key may try again, or 0 if it is under the limit
+    retryAfter(key: string): number {
+      const bucket = buckets.get(key);
+      if (!bucket || bucket.resetAt <= Date.now() || bucket.count < limit) return 0;
+      return Math.ceil((bucket.resetAt - Date.now()) / 1000);
+    },
+    hit(key: string): void {
+      const now = Date.now();
+      const bucket = buckets.get(key);
+      if (!bucket || bucket.resetAt <= now) {
+        buckets.set(key, { count: 1, resetAt: now + windowMs });
+      } else {
+        bucket.count++;
+      }
+    },
+    reset(key: string): void {
+      buckets.delete(key);
+    },
+  };
+}
+
+const loginIpLimiter = createRateLimiter(LOGIN_MAX_ATTEMPTS_PER_IP, LOGIN_RATE_WINDOW);
+const loginUserLimiter = createRateLimiter(LOGIN_MAX_FAILURES_PER_USER, LOGIN_RATE_WINDOW);
+
+// Middleware to rate limit login attempts
+// Every attempt counts against the IP; only failures count against the username
+export function loginRateLimit(handler: RouteHandler): RouteHandler {
+  return async (req: Request): Promise<Response> => {
+    const ip = getClientIp(req) ?? "unknown";
+    let username: string | null = null;
+    try {
+      const body = await req.clone().json();
+      if (typeof body?.username === "string") username = body.username.slice(0, 32);
+    } catch {
+      // Invalid body - the handler will reject it
+    }
+
+    const retryAfter = Math.max(
+      loginIpLimiter.retryAfter(ip),
+      username ? loginUserLimiter.retryAfter(username) : 0
+    );
+    if (retryAfter > 0) {
+      return Response.json(
+        { error: "Too many login attempts. Please try again later." },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } }
+      );
+    }
+
+    loginIpLimiter.hit(ip);
+    const res = await handler(req);
+
+    if (username) {
+      if (res.status === 401) {
+        loginUserLimiter.hit(username);
+        if (loginUserLimiter.retryAfter(username) > 0) {
+          console.warn(`[ratelimit] Login locked for "${username}" after repeated failures (last IP ${ip})`);
+        }
+      } else if (res.ok) {
+        loginUserLimiter.reset(username);
+      }
+    }
+
+    return res;
+  };
+}
+
+// Content report rate limit (reports per IP per window), configurable via env
+const REPORT_RATE_WINDOW = parseInt(process.env.REPORT_RATE_WINDOW || "3600", 10);
+const REPORT_MAX_PER_IP = parseInt(process.env.REPORT_MAX_PER_IP || "10", 10);
+
+console.log(`[ratelimit] Reports: ${REPORT_MAX_PER_IP} per IP per ${REPORT_RATE_WINDOW} seconds`);
+
+const reportIpLimiter = createRateLimiter(REPORT_MAX_PER_IP, REPORT_RATE_WINDOW);
+
+// Middleware to rate limit content reports, which guests can send too
+export function reportRateLimit(handler: RouteHandler): RouteHandler {
+  return async (req: Request): Promise<Response> => {
+    const ip = getClientIp(req) ?? "unknown";
+    const retryAfter = reportIpLimiter.retryAfter(ip);
+    if (retryAfter > 0) {
+      return Response.json(
+        { error: "Too many reports. Please try again later." },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } }
+      );
+    }
+
+    reportIpLimiter.hit(ip);
+    return handler(req);
+  };
+}
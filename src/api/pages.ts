@@ -0,0 +1,86 @@
+import { essayQueries, userQueries, type Essay } from "../db";
+import { renderMarkdown, markdownExcerpt, escapeHtml } from "../lib/markdown";
+import { getSiteUrl, parseDbDate, SITE_NAME } from "../lib/site";
+import { getEssayTags, getCoauthors, canReadEssay } from "./essays";
+
+// Serialize data for an inline <script> tag without allowing it to close the tag
+function toInlineJson(data: unknown): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
+
+// Build <title>, description, canonical, OpenGraph and Twitter tags for an essay
+function renderEssayHead(essay: Essay, author: string, url: string): string {
+  const title = `${essay.title} - ${SITE_NAME}`;
+  const description = markdownExcerpt(essay.content);
+
+  return [
+    `<title>${escapeHtml(title)}</title>`,
+    // Unlisted essays and draft previews are only for people who were given the link
+    ...(essay.status === "published" ? [] : [`<meta name="robots" content="noindex" />`]),
+    `<meta name="description" content="${escapeHtml(description)}" />`,
+    `<meta name="author" content="${escapeHtml(author)}" />`,
+    `<link rel="canonical" href="${escapeHtml(url)}" />`,
+    `<meta property="og:type" content="article" />`,
+    `<meta property="og:site_name" content="${SITE_NAME}" />`,
+    `<meta property="og:title" content="${escapeHtml(essay.title)}" />`,
+    `<meta property="og:description" content="${escapeHtml(description)}" />`,
+    `<meta property="og:url" content="${escapeHtml(url)}" />`,
+    `<meta property="article:published_time" content="${parseDbDate(essay.created_at).toISOString()}" />`,
+    `<meta property="article:modified_time" content="${parseDbDate(essay.updated_at).toISOString()}" />`,
+    `<meta property="article:author" content="${escapeHtml(author)}" />`,
+    `<link rel="alternate" type="application/rss+xml" title="${escapeHtml(author)}" href="/u/${encodeURIComponent(author)}/feed.xml" />`,
+    `<meta name="twitter:card" content="summary" />`,
+    `<meta name="twitter:title" content="${escapeHtml(essay.title)}" />`,
+    `<meta name="twitter:description" content="${escapeHtml(description)}" />`,
+  ].join("\n    ");
+}
+
+// Static article markup shown until the terminal app mounts over it
+function renderEssayBody(essay: Essay, author: string, coauthors: string[]): string {
+  const date = parseDbDate(essay.updated_at).toISOString().slice(0, 10);
+  const byline = [author, ...coauthors].map(escapeHtml).join(", ");
+
+  return `<main class="ssr-essay">
+      <article class="editor-preview-content markdown-preview">
+        <h1>${escapeHtml(essay.title)}</h1>
+        <p class="ssr-essay-meta">${byline} &middot; <time datetime="${date}">${date}</time></p>
+        ${renderMarkdown(essay.content)}
+      </article>
+    </main>`;
+}
+
+// Server-render a published or unlisted essay, or a draft opened with a preview key, into the SPA shell
+// Returns null when the essay can't be read without signing in, so the SPA can handle it client-side
+export function renderEssayPage(req: Request, shortId: string, shell: string): Response | null {
+  try {
+    const essay = essayQueries.findByShortId.get(shortId);
+    if (!essay || !canReadEssay(essay, undefined, new URL(req.url).searchParams.get("key"))) {
+      return null;
+    }
+
+    const user = userQueries.findById.get(essay.user_id);
+    const author = user?.username || "Unknown";
+    const coauthors = getCoauthors(essay.id);
+    const url = `${getSiteUrl(req)}/${essay.short_id}`;
+
+    // Same shape as GET /api/essays/:id, so App can open it without refetching
+    const initialEssay = { ...essay, id: essay.short_id, author, coauthors, tags: getEssayTags(essay.id) };
+
+    // Replacer functions keep "$" sequences in essay content from being interpreted
+    const html = shell
+      .replace(/<meta name="description"[^>]*>/, () => "")
+      .replace(/<title>[\s\S]*?<\/title>/, () => renderEssayHead(essay, author, url))
+      .replace(
+        /<div id="root"><\/div>/,
+        () => `<div id="root">${renderEssayBody(essay, author, coauthors)}</div>
+    <script type="application/json" id="initial-essay">${toInlineJson(initialEssay)}</script>`
+      );
+
+    return new Response(html, {
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  } catch (error) {
+    console.error("Render essay page error:", error);
+    return null;
+  }
+}
@@ -0,0 +1,101 @@
+import { essayQueries, previewKeyQueries, type PreviewKey } from "../db";
+import { generateOpaqueToken } from "../lib/jwt";
+import { hasEssayRole } from "./essays";
+import type { AuthenticatedRequest } from "./middleware";
+
+// Secret preview links: /<short_id>?key=<key> lets anyone holding the link read a draft
+
+function toPreviewLink(essayId: string, previewKey: PreviewKey) {
+  return {
+    id: previewKey.id,
+    key: previewKey.key,
+    path: `/${essayId}?key=${previewKey.key}`,
+    created_at: previewKey.created_at,
+  };
+}
+
+// List an essay's preview links (authenticated, editors and owners)
+export async function getPreviewKeys(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const essay = essayQueries.findByShortId.get(req.params.id);
+    if (!essay) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(essay, req.userId, "editor")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    return Response.json({
+      previews: previewKeyQueries.findByEssayId.all(essay.id).map((key) => toPreviewLink(essay.short_id, key)),
+    });
+  } catch (error) {
+    console.error("Get preview keys error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a new preview link (authenticated, editors and owners)
+export async function createPreviewKey(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const essay = essayQueries.findByShortId.get(req.params.id);
+    if (!essay) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(essay, req.userId, "editor")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const previewKey = previewKeyQueries.create.get(essay.id, generateOpaqueToken(18));
+    if (!previewKey) {
+      return Response.json(
+        { error: "Failed to create preview link" },
+        { status: 500 }
+      );
+    }
+
+    return Response.json({
+      message: "Preview link created",
+      preview: toPreviewLink(essay.short_id, previewKey),
+    }, { status: 201 });
+  } catch (error) {
+    console.error("Create preview key error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Revoke one preview link, or all of them without a key ID (authenticated, editors and owners)
+export async function revokePreviewKeys(req: AuthenticatedRequest & { params: { id: string; keyId?: string } }): Promise<Response> {
+  try {
+    const essay = essayQueries.findByShortId.get(req.params.id);
+    if (!essay) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(essay, req.userId, "editor")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    if (req.params.keyId === undefined) {
+      const revoked = previewKeyQueries.deleteByEssayId.all(essay.id);
+      return Response.json({ message: `Revoked ${revoked.length} preview ${revoked.length === 1 ? "link" : "links"}` });
+    }
+
+    const keyId = parseInt(req.params.keyId, 10);
+    if (isNaN(keyId) || !previewKeyQueries.delete.get(keyId, essay.id)) {
+      return Response.json({ error: "Preview link not found" }, { status: 404 });
+    }
+
+    return Response.json({ message: "Preview link revoked" });
+  } catch (error) {
+    console.error("Revoke preview key error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { essayQueries, reportQueries } from "../db";
+import { canReadEssay } from "./essays";
+import { getClientIp } from "./middleware";
+
+// Open reports from different people needed to hide an essay until an admin reviews it
+const REPORT_HIDE_THRESHOLD = parseInt(process.env.REPORT_HIDE_THRESHOLD || "3", 10);
+
+// Maximum report reason length
+const MAX_REASON_LENGTH = 500;
+
+interface ReportEssayRequest {
+  reason: string;
+}
+
+// Report an essay for spam or abuse (public, rate limited)
+export async function reportEssay(req: Request & { params: { id: string }; userId?: number }): Promise<Response> {
+  try {
+    const essay = essayQueries.findByShortId.get(req.params.id);
+    if (!essay || !canReadEssay(essay, req.userId, null)) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (essay.user_id === req.userId) {
+      return Response.json({ error: "You can't report your own essay" }, { status: 400 });
+    }
+
+    const body: ReportEssayRequest = await req.json();
+    const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+    if (!reason) {
+      return Response.json({ error: "A reason is required" }, { status: 400 });
+    }
+    if (reason.length > MAX_REASON_LENGTH) {
+      return Response.json(
+        { error: `Reason exceeds maximum length of ${MAX_REASON_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const reporterId = req.userId ?? null;
+    const reporterIp = getClientIp(req);
+    if (reportQueries.findOpenByReporter.get(essay.id, reporterId, reporterIp)) {
+      return Response.json({ error: "You have already reported this essay" }, { status: 409 });
+    }
+
+    reportQueries.create.get(essay.id, reporterId, reporterIp, reason);
+
+    const { count } = reportQueries.countOpen.get(essay.id)!;
+    if (count >= REPORT_HIDE_THRESHOLD && !essay.hidden_at) {
+      essayQueries.hide.get(essay.id);
+      console.warn(`[reports] Essay ${essay.short_id} hidden after ${count} open reports`);
+    }
+
+    return Response.json({ message: "Report received. Thank you." }, { status: 201 });
+  } catch (error) {
+    console.error("Report essay error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
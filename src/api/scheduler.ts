@@ -0,0 +1,41 @@
+import { essayQueries } from "../db";
+import { parseDbDate } from "../lib/site";
+
+// Scheduled publishing
+// One timer is armed for the earliest pending publish_at. It is re-armed on startup and
+// whenever a schedule changes, so schedules survive restarts without polling
+
+// setTimeout overflows past ~24.8 days, so long waits are taken in steps
+const MAX_TIMER_DELAY = 24 * 60 * 60 * 1000;
+
+// Lower bound between runs, so a failing publish can't spin the timer
+const MIN_TIMER_DELAY = 1000;
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+function publishDueEssays(): void {
+  for (const essay of essayQueries.findDueScheduled.all()) {
+    essayQueries.updateStatus.get("published", essay.short_id, essay.user_id);
+    console.log(`📅 Published scheduled essay ${essay.short_id}`);
+  }
+}
+
+// Publish anything already due, then wait for the next scheduled essay
+export function armPublishScheduler(): void {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+
+  try {
+    publishDueEssays();
+  } catch (error) {
+    console.error("Scheduled publish error:", error);
+  }
+
+  const next = essayQueries.findNextScheduled.get();
+  if (!next) return;
+
+  const delay = parseDbDate(next.publish_at).getTime() - Date.now();
+  timer = setTimeout(armPublishScheduler, Math.min(Math.max(delay, MIN_TIMER_DELAY), MAX_TIMER_DELAY));
+}
@@ -0,0 +1,84 @@
+import { existsSync, readdirSync } from "fs";
+import path from "path";
+
+// Hunspell dictionaries for the editor's spell check, looked up by locale ("en_GB", "de_DE")
+// Each language is a <locale>/<locale>.aff + <locale>.dic pair, the layout typo-js ships with
+
+// Installed dictionaries - configurable via environment variable
+const SPELLCHECK_DICTIONARIES_PATH = process.env.SPELLCHECK_DICTIONARIES_PATH || "dictionaries";
+
+// typo-js bundles en_US; an installed en_US takes precedence
+const BUNDLED_DICTIONARIES_PATH = "node_modules/typo-js/dictionaries";
+
+// Language of essays that haven't picked one
+export const DEFAULT_SPELLING_LANGUAGE = "en_US";
+
+// Also keeps locales from reaching outside the dictionary folders
+const LOCALE_PATTERN = /^[a-z]{2,3}(?:_[A-Z]{2})?$/;
+
+function findDictionaryFile(locale: string, extension: "aff" | "dic"): string | null {
+  for (const root of [SPELLCHECK_DICTIONARIES_PATH, BUNDLED_DICTIONARIES_PATH]) {
+    const file = path.join(root, locale, `${locale}.${extension}`);
+    if (existsSync(file)) return file;
+  }
+  return null;
+}
+
+// Locales with both files installed, read from disk so new ones work without a restart
+export function listSpellingLanguages(): string[] {
+  const locales = new Set<string>();
+  for (const root of [SPELLCHECK_DICTIONARIES_PATH, BUNDLED_DICTIONARIES_PATH]) {
+    if (!existsSync(root)) continue;
+    for (const entry of readdirSync(root, { withFileTypes: true })) {
+      if (entry.isDirectory() && LOCALE_PATTERN.test(entry.name)) {
+        locales.add(entry.name);
+      }
+    }
+  }
+  return [...locales]
+    .filter((locale) => findDictionaryFile(locale, "aff") && findDictionaryFile(locale, "dic"))
+    .sort();
+}
+
+export function isSpellingLanguage(value: unknown): value is string {
+  return typeof value === "string" && LOCALE_PATTERN.test(value) && listSpellingLanguages().includes(value);
+}
+
+console.log(`[spelling] Dictionaries: ${listSpellingLanguages().join(", ") || "none"}`);
+
+// List installed spell check languages (public)
+export async function getSpellingLanguages(_req: Request): Promise<Response> {
+  try {
+    return Response.json({
+      languages: listSpellingLanguages(),
+      default: DEFAULT_SPELLING_LANGUAGE,
+    });
+  } catch (error) {
+    console.error("Get spelling languages error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Serve a Hunspell file as /dictionaries/<locale>.aff or .dic (public)
+export async function getSpellingDictionary(req: Request & { params: { file: string } }): Promise<Response> {
+  const match = req.params.file.match(/^(.+)\.(aff|dic)$/);
+  const locale = match?.[1];
+  if (!match || !locale || !LOCALE_PATTERN.test(locale)) {
+    return new Response("Dictionary not found", { status: 404 });
+  }
+
+  const file = findDictionaryFile(locale, match[2] as "aff" | "dic");
+  if (!file) {
+    return new Response("Dictionary not found", { status: 404 });
+  }
+
+  return new Response(Bun.file(file), {
+    headers: {
+      "Content-Type": "text/plain",
+      "Cache-Control": "public, max-age=86400",
+    },
+  });
+}
@@ -0,0 +1,375 @@
+import {
+  essayQueries,
+  setEssayTags,
+  generateUniqueShortId,
+  type Essay,
+} from "../db";
+import { parseFrontMatter, stringifyFrontMatter, type FrontMatterDocument } from "../lib/frontmatter";
+import { parseDbDate, toDbDate } from "../lib/site";
+import { readZip, zipStream, type ZipEntry } from "../lib/zip";
+import { MAX_ESSAY_LENGTH, parseTags, recordRevision, getEssayTags, loadTags, hasEssayRole, isEssayStatus } from "./essays";
+import { isSpellingLanguage } from "./spelling";
+import type { AuthenticatedRequest } from "./middleware";
+
+// Maximum number of files accepted by a single import
+const MAX_IMPORT_FILES = 20;
+
+// Account archive limits: upload size and total uncompressed size
+const MAX_ARCHIVE_SIZE = 50 * 1024 * 1024;
+const MAX_ARCHIVE_CONTENT_SIZE = 200 * 1024 * 1024;
+
+const MANIFEST_FILE = "manifest.json";
+const MANIFEST_VERSION = 1;
+
+// Per-essay record in an account archive's manifest.json
+interface ManifestEssay {
+  short_id: string;
+  file: string;
+  title: string;
+  status: Essay["status"];
+  tags: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+interface Manifest {
+  version: number;
+  exported_at: string;
+  username: string;
+  essays: ManifestEssay[];
+}
+
+const MARKDOWN_CONTENT_TYPE = "text/markdown; charset=utf-8";
+
+// Render an essay as markdown with YAML front matter
+export function essayToMarkdown(essay: Essay, tags: string[]): string {
+  return stringifyFrontMatter(
+    {
+      title: essay.title,
+      status: essay.status,
+      tags,
+      language: essay.language,
+      created_at: parseDbDate(essay.created_at).toISOString(),
+      updated_at: parseDbDate(essay.updated_at).toISOString(),
+    },
+    essay.content
+  );
+}
+
+// File name for an exported essay, derived from its title
+export function essayFilename(essay: Essay): string {
+  const slug = essay.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+    .replace(/-+$/, "");
+  return `${slug || essay.short_id}.md`;
+}
+
+// Create an essay from a front-matter markdown document
+// Title falls back to the first heading, then the file name
+export function importMarkdownEssay(
+  userId: number,
+  text: string,
+  filename: string,
+  shortId = generateUniqueShortId()
+): { essay: Essay; tags: string[] } | { error: string } {
+  let document: FrontMatterDocument;
+  try {
+    document = parseFrontMatter(text);
+  } catch {
+    return { error: "Invalid front matter" };
+  }
+  const { data } = document;
+  // Exports end with a newline; don't let round trips accumulate whitespace
+  const content = document.content.trimEnd();
+
+  const heading = content.match(/^#\s+(.+)$/m)?.[1];
+  const rawTitle = typeof data.title === "string" && data.title.trim()
+    ? data.title
+    : heading ?? filename.replace(/\.(md|markdown)$/i, "");
+  const title = rawTitle.trim();
+
+  if (!title) {
+    return { error: "Title is required" };
+  }
+  if (!content) {
+    return { error: "Content is required" };
+  }
+  if (content.length > MAX_ESSAY_LENGTH) {
+    return { error: `Essay content exceeds maximum length of ${MAX_ESSAY_LENGTH} characters` };
+  }
+
+  let tags: string[] = [];
+  if (data.tags !== undefined && data.tags !== null) {
+    const parsed = parseTags(Array.isArray(data.tags) ? data.tags : [data.tags]);
+    if ("error" in parsed) {
+      return { error: parsed.error };
+    }
+    tags = parsed.tags;
+  }
+
+  let essay = essayQueries.create.get(shortId, userId, title, content);
+  if (!essay) {
+    return { error: "Failed to create essay" };
+  }
+
+  recordRevision(essay);
+  setEssayTags(essay.id, tags);
+
+  if (isSpellingLanguage(data.language)) {
+    essay = essayQueries.setLanguage.get(data.language, essay.short_id) ?? essay;
+  }
+  if (isEssayStatus(data.status) && data.status !== "draft") {
+    essay = essayQueries.updateStatus.get(data.status, essay.short_id, userId) ?? essay;
+  }
+
+  return { essay, tags };
+}
+
+// Export an essay as markdown with front matter (authenticated)
+export async function exportEssay(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const url = new URL(req.url);
+    const format = url.searchParams.get("format") ?? "md";
+    if (format !== "md") {
+      return Response.json({ error: "Unsupported export format. Use format=md" }, { status: 400 });
+    }
+
+    const essay = essayQueries.findByShortId.get(req.params.id);
+    if (!essay) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(essay, req.userId, "viewer")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    return new Response(essayToMarkdown(essay, getEssayTags(essay.id)), {
+      headers: {
+        "Content-Type": MARKDOWN_CONTENT_TYPE,
+        "Content-Disposition": `attachment; filename="${essayFilename(essay)}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Export essay error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Import essays from uploaded front-matter markdown files (authenticated)
+// Expects multipart/form-data with one or more "files" fields
+export async function importEssays(req: AuthenticatedRequest): Promise<Response> {
+  try {
+    let form: FormData;
+    try {
+      form = await req.formData();
+    } catch {
+      return Response.json({ error: "Expected multipart/form-data with markdown files" }, { status: 400 });
+    }
+
+    const files = form.getAll("files").filter((entry): entry is File => typeof entry !== "string");
+    if (files.length === 0) {
+      return Response.json({ error: "No files uploaded" }, { status: 400 });
+    }
+    if (files.length > MAX_IMPORT_FILES) {
+      return Response.json({ error: `At most ${MAX_IMPORT_FILES} files can be imported at once` }, { status: 400 });
+    }
+
+    const essays = [];
+    const errors: Array<{ file: string; error: string }> = [];
+
+    for (const file of files) {
+      // Front matter and multi-byte characters make the byte size a loose upper bound
+      if (file.size > MAX_ESSAY_LENGTH * 4) {
+        errors.push({ file: file.name, error: "File is too large" });
+        continue;
+      }
+
+      const result = importMarkdownEssay(req.userId, await file.text(), file.name);
+      if ("error" in result) {
+        errors.push({ file: file.name, error: result.error });
+        continue;
+      }
+
+      essays.push({
+        ...result.essay,
+        id: result.essay.short_id, // Use short_id as the public ID
+        tags: result.tags,
+      });
+    }
+
+    return Response.json({
+      message: `Imported ${essays.length} of ${files.length} files`,
+      essays,
+      errors,
+    }, { status: essays.length > 0 ? 201 : 400 });
+  } catch (error) {
+    console.error("Import essays error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Download every essay the user owns as a zip archive (authenticated)
+// Contains essays/<id>-<slug>.md per essay plus manifest.json
+export async function exportAccount(req: AuthenticatedRequest): Promise<Response> {
+  try {
+    const essays = essayQueries.findByUserId.all(req.userId);
+    const tags = loadTags(essays.map((essay) => essay.id));
+
+    const manifest: Manifest = {
+      version: MANIFEST_VERSION,
+      exported_at: new Date().toISOString(),
+      username: req.username,
+      essays: essays.map((essay) => ({
+        short_id: essay.short_id,
+        file: `essays/${essay.short_id}-${essayFilename(essay)}`,
+        title: essay.title,
+        status: essay.status,
+        tags: tags.get(essay.id) ?? [],
+        created_at: parseDbDate(essay.created_at).toISOString(),
+        updated_at: parseDbDate(essay.updated_at).toISOString(),
+      })),
+    };
+
+    // Render markdown lazily, one essay per chunk pulled by the client
+    const encoder = new TextEncoder();
+    function* entries(): Generator<ZipEntry> {
+      yield { name: MANIFEST_FILE, data: encoder.encode(JSON.stringify(manifest, null, 2)) };
+      for (const [i, essay] of essays.entries()) {
+        yield {
+          name: manifest.essays[i]!.file,
+          data: encoder.encode(essayToMarkdown(essay, tags.get(essay.id) ?? [])),
+          modified: parseDbDate(essay.updated_at),
+        };
+      }
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new Response(zipStream(entries()), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="disregarded-${req.username}-${date}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error("Export account error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Restore essays from an account archive (authenticated)
+// Expects multipart/form-data with an "archive" file; short IDs are kept when free.
+// Archives without a manifest are imported as plain markdown files.
+export async function importAccount(req: AuthenticatedRequest): Promise<Response> {
+  try {
+    let archive: File | null = null;
+    try {
+      const entry = (await req.formData()).get("archive");
+      if (entry && typeof entry !== "string") archive = entry;
+    } catch {
+      // Fall through to the missing archive error
+    }
+
+    if (!archive) {
+      return Response.json({ error: "Expected multipart/form-data with an archive file" }, { status: 400 });
+    }
+    if (archive.size > MAX_ARCHIVE_SIZE) {
+      return Response.json({ error: "Archive is too large" }, { status: 400 });
+    }
+
+    let files: Map<string, ZipEntry>;
+    try {
+      const entries = readZip(new Uint8Array(await archive.arrayBuffer()), {
+        maxEntrySize: MAX_ESSAY_LENGTH * 4,
+        maxTotalSize: MAX_ARCHIVE_CONTENT_SIZE,
+      });
+      files = new Map(entries.map((entry) => [entry.name, entry]));
+    } catch (error) {
+      return Response.json({ error: `Invalid archive: ${(error as Error).message}` }, { status: 400 });
+    }
+
+    const decoder = new TextDecoder();
+    let records: Array<Partial<ManifestEssay> & { file: string }>;
+    const manifestEntry = files.get(MANIFEST_FILE);
+    if (manifestEntry) {
+      let manifest: Manifest;
+      try {
+        manifest = JSON.parse(decoder.decode(manifestEntry.data));
+      } catch {
+        return Response.json({ error: "Invalid manifest.json" }, { status: 400 });
+      }
+      if (!Array.isArray(manifest.essays)) {
+        return Response.json({ error: "Invalid manifest.json" }, { status: 400 });
+      }
+      records = manifest.essays.filter((record) => typeof record?.file === "string");
+    } else {
+      records = [...files.keys()]
+        .filter((name) => /\.(md|markdown)$/i.test(name))
+        .map((file) => ({ file }));
+    }
+
+    const essays = [];
+    const errors: Array<{ file: string; error: string }> = [];
+
+    for (const record of records) {
+      const file = files.get(record.file);
+      if (!file) {
+        errors.push({ file: record.file, error: "File missing from archive" });
+        continue;
+      }
+
+      const originalId = typeof record.short_id === "string" && /^[a-zA-Z0-9]{1,16}$/.test(record.short_id)
+        ? record.short_id
+        : null;
+      const shortId = originalId && !essayQueries.findByShortId.get(originalId)
+        ? originalId
+        : generateUniqueShortId();
+
+      const result = importMarkdownEssay(req.userId, decoder.decode(file.data), record.file.split("/").pop()!, shortId);
+      if ("error" in result) {
+        errors.push({ file: record.file, error: result.error });
+        continue;
+      }
+
+      // Manifest status and timestamps win over the front matter
+      let essay = result.essay;
+      if (isEssayStatus(record.status) && record.status !== essay.status) {
+        essay = essayQueries.updateStatus.get(record.status, essay.short_id, req.userId) ?? essay;
+      }
+      const createdAt = toDbDate(record.created_at);
+      const updatedAt = toDbDate(record.updated_at);
+      if (createdAt && updatedAt) {
+        essay = essayQueries.setTimestamps.get(createdAt, updatedAt, essay.id) ?? essay;
+      }
+
+      essays.push({
+        ...essay,
+        id: essay.short_id, // Use short_id as the public ID
+        original_id: originalId,
+        tags: result.tags,
+      });
+    }
+
+    return Response.json({
+      message: `Restored ${essays.length} of ${records.length} essays`,
+      essays,
+      errors,
+    }, { status: essays.length > 0 || records.length === 0 ? 201 : 400 });
+  } catch (error) {
+    console.error("Import account error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
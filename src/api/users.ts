@@ -0,0 +1,116 @@
+import { essayQueries, userQueries } from "../db";
+import { parsePagination, toPage, loadTags } from "./essays";
+import type { AuthenticatedRequest } from "./middleware";
+
+// Profile field limits
+const MAX_DISPLAY_NAME_LENGTH = 50;
+const MAX_BIO_LENGTH = 2000;
+
+interface UpdateProfileRequest {
+  display_name?: string | null;
+  bio?: string | null;
+}
+
+// Get an author's public profile and published essays (public, paginated)
+export async function getUserProfile(req: Request & { params: { username: string } }): Promise<Response> {
+  try {
+    const user = userQueries.findByUsername.get(req.params.username);
+    if (!user) {
+      return Response.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const pagination = parsePagination(new URL(req.url));
+    if ("error" in pagination) {
+      return Response.json({ error: pagination.error }, { status: 400 });
+    }
+
+    const { limit, cursor } = pagination;
+    const rows = essayQueries.findPublishedByUserIdPage.all(
+      user.id,
+      cursor?.updatedAt ?? null,
+      cursor?.id ?? null,
+      limit + 1
+    );
+    const { items, nextCursor } = toPage(rows, limit);
+    const tags = loadTags(items.map((essay) => essay.id));
+
+    return Response.json({
+      user: {
+        username: user.username,
+        display_name: user.display_name || user.username,
+        bio: user.bio || "",
+        created_at: user.created_at,
+      },
+      essays: items.map((essay) => ({
+        ...essay,
+        id: essay.short_id,
+        tags: tags.get(essay.id) ?? [],
+      })),
+      nextCursor,
+    });
+  } catch (error) {
+    console.error("Get user profile error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Update the current user's display name and bio (authenticated)
+export async function updateProfile(req: AuthenticatedRequest): Promise<Response> {
+  try {
+    const existing = userQueries.findById.get(req.userId);
+    if (!existing) {
+      return Response.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body: UpdateProfileRequest = await req.json();
+
+    // Omitted fields keep their current value; null or "" clears them
+    const displayName = body.display_name === undefined
+      ? existing.display_name
+      : body.display_name?.trim() || null;
+    const bio = body.bio === undefined
+      ? existing.bio
+      : body.bio?.trim() || null;
+
+    if (displayName && displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+      return Response.json(
+        { error: `Display name must be at most ${MAX_DISPLAY_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (bio && bio.length > MAX_BIO_LENGTH) {
+      return Response.json(
+        { error: `Bio must be at most ${MAX_BIO_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const user = userQueries.updateProfile.get(displayName, bio, req.userId);
+    if (!user) {
+      return Response.json(
+        { error: "Failed to update profile" },
+        { status: 500 }
+      );
+    }
+
+    return Response.json({
+      message: "Profile updated",
+      user: {
+        username: user.username,
+        display_name: user.display_name || user.username,
+        bio: user.bio || "",
+        created_at: user.created_at,
+      },
+    });
+  } catch (error) {
+    console.error("Update profile error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
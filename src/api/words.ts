@@ -0,0 +1,173 @@
+import { essayQueries, wordQueries } from "../db";
+import { hasEssayRole } from "./essays";
+import { decodeParam, type AuthenticatedRequest } from "./middleware";
+
+// Spell check word lists: a personal dictionary per user and an ignore list per essay
+
+// Longest word accepted
+const MAX_WORD_LENGTH = 64;
+
+// Words allowed in one personal dictionary or essay ignore list
+const MAX_WORDS = 5000;
+
+interface WordRequest {
+  word: string;
+}
+
+// A single word as spell check sees it: letters, optionally joined by apostrophes
+function parseWord(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const word = value.trim();
+  if (!word || word.length > MAX_WORD_LENGTH || !/^\p{L}+(?:'\p{L}+)*$/u.test(word)) {
+    return null;
+  }
+  return word;
+}
+
+// List the words in your personal dictionary (authenticated)
+export async function getUserWords(req: AuthenticatedRequest): Promise<Response> {
+  try {
+    const words = wordQueries.findByUserId.all(req.userId).map((row) => row.word);
+    return Response.json({ words });
+  } catch (error) {
+    console.error("Get user words error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a word to your personal dictionary (authenticated)
+export async function addUserWord(req: AuthenticatedRequest): Promise<Response> {
+  try {
+    const body: WordRequest = await req.json();
+    const word = parseWord(body.word);
+    if (!word) {
+      return Response.json({ error: "Invalid word" }, { status: 400 });
+    }
+
+    if (wordQueries.countByUserId.get(req.userId)!.count >= MAX_WORDS) {
+      return Response.json({ error: `Dictionary is limited to ${MAX_WORDS} words` }, { status: 400 });
+    }
+
+    if (!wordQueries.addForUser.get(req.userId, word)) {
+      return Response.json({ message: `"${word}" is already in your dictionary`, word });
+    }
+
+    return Response.json({ message: `Added "${word}" to your dictionary`, word }, { status: 201 });
+  } catch (error) {
+    console.error("Add user word error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove a word from your personal dictionary (authenticated)
+export async function removeUserWord(req: AuthenticatedRequest & { params: { word: string } }): Promise<Response> {
+  try {
+    const word = decodeParam(req.params.word);
+    if (!word) {
+      return Response.json({ error: "Invalid word" }, { status: 400 });
+    }
+    if (!wordQueries.removeForUser.get(req.userId, word)) {
+      return Response.json({ error: "Word not in your dictionary" }, { status: 404 });
+    }
+
+    return Response.json({ message: `Removed "${word}" from your dictionary` });
+  } catch (error) {
+    console.error("Remove user word error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// List the words spell check ignores in an essay (authenticated, collaborators)
+export async function getIgnoredWords(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const essay = essayQueries.findByShortId.get(req.params.id);
+    if (!essay) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(essay, req.userId, "viewer")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const words = wordQueries.findByEssayId.all(essay.id).map((row) => row.word);
+    return Response.json({ words });
+  } catch (error) {
+    console.error("Get ignored words error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Ignore a word in an essay (authenticated, editors and owners)
+export async function ignoreWord(req: AuthenticatedRequest & { params: { id: string } }): Promise<Response> {
+  try {
+    const essay = essayQueries.findByShortId.get(req.params.id);
+    if (!essay) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(essay, req.userId, "editor")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const body: WordRequest = await req.json();
+    const word = parseWord(body.word);
+    if (!word) {
+      return Response.json({ error: "Invalid word" }, { status: 400 });
+    }
+
+    if (wordQueries.countByEssayId.get(essay.id)!.count >= MAX_WORDS) {
+      return Response.json({ error: `Ignore list is limited to ${MAX_WORDS} words` }, { status: 400 });
+    }
+
+    if (!wordQueries.addForEssay.get(essay.id, word)) {
+      return Response.json({ message: `"${word}" is already ignored in this essay`, word });
+    }
+
+    return Response.json({ message: `Ignoring "${word}" in this essay`, word }, { status: 201 });
+  } catch (error) {
+    console.error("Ignore word error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Stop ignoring a word in an essay (authenticated, editors and owners)
+export async function unignoreWord(req: AuthenticatedRequest & { params: { id: string; word: string } }): Promise<Response> {
+  try {
+    const essay = essayQueries.findByShortId.get(req.params.id);
+    if (!essay) {
+      return Response.json({ error: "Essay not found" }, { status: 404 });
+    }
+    if (!hasEssayRole(essay, req.userId, "editor")) {
+      return Response.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const word = decodeParam(req.params.word);
+    if (!word) {
+      return Response.json({ error: "Invalid word" }, { status: 400 });
+    }
+    if (!wordQueries.removeForEssay.get(essay.id, word)) {
+      return Response.json({ error: "Word is not ignored in this essay" }, { status: 404 });
+    }
+
+    return Response.json({ message: `No longer ignoring "${word}" in this essay` });
+  } catch (error) {
+    console.error("Unignore word error:", error);
+    return Response.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -42,25 +42,15 @@ export function DictionaryPopup({ word, position, onClose }: DictionaryPopupProp
       setError(null);
 
       try {
-        const response = await fetch(
-          `https://api.dictionaryapi.dev/api/v2/entries/en/${encodeURIComponent(word.toLowerCase())}`
-        );
+        const response = await fetch(`/api/define/${encodeURIComponent(word.toLowerCase())}`);
+        const data = await response.json();
 
         if (!response.ok) {
-          if (response.status === 404) {
-            setError("Word not found in dictionary");
-          } else {
-            setError("Failed to fetch definition");
-          }
+          setError(data.error || "Failed to fetch definition");
           return;
         }
 
-        const data = await response.json();
-        if (Array.isArray(data) && data.length > 0) {
-          setEntry(data[0]);
-        } else {
-          setError("No definition found");
-        }
+        setEntry(data.entry);
       } catch (err) {
         setError("Failed to fetch definition");
       } finally {
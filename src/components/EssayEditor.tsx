@@ -1,24 +1,31 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from "react";
-import { marked } from "marked";
-import markedAlert from "marked-alert";
 import CodeMirror, { ReactCodeMirrorRef } from "@uiw/react-codemirror";
 import { markdown, markdownLanguage } from "@codemirror/lang-markdown";
 import { languages } from "@codemirror/language-data";
 import { EditorView } from "@codemirror/view";
 import { everforest } from "../lib/codemirror-theme";
 import { authFetch } from "../hooks/useAuth";
-import { spellCheckExtension } from "../lib/spellcheck";
+import { createSpellCheckExtension } from "../lib/spellcheck";
+import { renderMarkdown } from "../lib/markdown";
+import { getDraft, saveDraft, deleteDraft, getDraftKey } from "../lib/drafts";
+import { mergeLines } from "../lib/diff";
+import { createCollabSession, type CollabSession, type CollabStatus, type Peer } from "../lib/collab";
 import { DictionaryPopup } from "./DictionaryPopup";
+import { ThesaurusPopup } from "./ThesaurusPopup";
 
 interface Essay {
   id?: string;
   title: string;
   content: string;
-  status?: "draft" | "published";
+  status?: "draft" | "unlisted" | "published";
+  tags?: string[];
+  language?: string;
+  version?: number;
 }
 
 interface EssayEditorProps {
   essay: Essay | null; // null = new essay
+  userId: number | null; // Owner of local drafts; null when signed out, which turns drafts off
   onClose: () => void;
   onSaved: (message: string) => void;
   readOnly?: boolean;
@@ -37,23 +44,67 @@ interface DictionaryState {
   position: { x: number; y: number };
 }
 
-// Configure marked with GitHub-style alerts
-marked.use(markedAlert());
+// The thesaurus also remembers where the word was, to replace it
+interface ThesaurusState extends DictionaryState {
+  from: number;
+  to: number;
+}
+
+// Buffer fields that count as unsaved changes
+interface Snapshot {
+  title: string;
+  content: string;
+  tags: string[];
+}
+
+// Delay after the last keystroke before the buffer is written to IndexedDB
+const DRAFT_DELAY = 500;
+
+// Delay after the last keystroke before an existing essay is saved to the server
+const AUTOSAVE_DELAY = 5000;
+
+// Opening line of a conflict left by a three-way merge; autosave holds off while one remains
+const CONFLICT_MARKER = /^<<<<<<< mine$/m;
 
-export function EssayEditor({ essay, onClose, onSaved, readOnly = false, startInPreview = false }: EssayEditorProps) {
+function isSameSnapshot(a: Snapshot, b: Snapshot): boolean {
+  return a.title === b.title && a.content === b.content && a.tags.join(" ") === b.tags.join(" ");
+}
+
+export function EssayEditor({ essay, userId, onClose, onSaved, readOnly = false, startInPreview = false }: EssayEditorProps) {
   const [title, setTitle] = useState(essay?.title || "Untitled");
   const [content, setContent] = useState(essay?.content || "");
-  const [currentStatus, setCurrentStatus] = useState<"draft" | "published">(essay?.status || "draft");
+  const [tags, setTags] = useState<string[]>(essay?.tags || []);
+  const [currentStatus, setCurrentStatus] = useState<NonNullable<Essay["status"]>>(essay?.status || "draft");
   const [isSaving, setIsSaving] = useState(false);
   const [statusMessage, setStatusMessage] = useState("");
   const [showPreview, setShowPreview] = useState(startInPreview);
   const [prompt, setPrompt] = useState<PromptState | null>(null);
   const [dictionaryPopup, setDictionaryPopup] = useState<DictionaryState | null>(null);
+  const [thesaurusPopup, setThesaurusPopup] = useState<ThesaurusState | null>(null);
   
   const editorRef = useRef<ReactCodeMirrorRef>(null);
   const promptInputRef = useRef<HTMLInputElement>(null);
   const statusTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isNew = !essay?.id;
+  const draftKey = userId === null ? null : getDraftKey(userId, essay?.id);
+
+  // Last state known to be on the server; the buffer is dirty when it differs
+  const [savedSnapshot, setSavedSnapshot] = useState<Snapshot>({
+    title: essay?.title || "Untitled",
+    content: essay?.content || "",
+    tags: essay?.tags || [],
+  });
+  // Server version the buffer is based on, sent with saves so stale writes are rejected
+  const versionRef = useRef(essay?.version);
+  // Drafts aren't written until any stored draft has been offered for recovery
+  const [draftChecked, setDraftChecked] = useState(readOnly);
+  const isDirty = !readOnly && !isSameSnapshot({ title, content, tags }, savedSnapshot);
+
+  // Live collaboration: while connected, content is synced and saved by the server
+  const [collabSession, setCollabSession] = useState<CollabSession | null>(null);
+  const [collabStatus, setCollabStatus] = useState<CollabStatus>("offline");
+  const [peers, setPeers] = useState<Peer[]>([]);
+  const isLive = collabSession !== null && collabStatus === "live";
 
   // Focus management
   useEffect(() => {
@@ -73,7 +124,7 @@ export function EssayEditor({ essay, onClose, onSaved, readOnly = false, startIn
     } else {
       const publishHint = isNew ? "" : (currentStatus === "published" ? " | Ctrl+Enter unpublish" : " | Ctrl+Enter publish");
       const previewHint = showPreview ? "Ctrl+P edit" : "Ctrl+P preview";
-      return `Ctrl+S save | Ctrl+E title | ${previewHint}${publishHint}${shareHint} | Esc close`;
+      return `Ctrl+S save | Ctrl+E title | Ctrl+G tags | ${previewHint}${publishHint}${shareHint} | Esc close`;
     }
   }, [readOnly, isNew, currentStatus, showPreview, essay?.id]);
 
@@ -108,44 +159,298 @@ export function EssayEditor({ essay, onClose, onSaved, readOnly = false, startIn
     }
   }, []);
 
-  const handleSave = useCallback(async () => {
-    if (readOnly || isSaving) return;
+  // Latest buffer, for timers and async callbacks
+  const latestSnapshotRef = useRef<Snapshot>({ title, content, tags });
+  latestSnapshotRef.current = { title, content, tags };
+
+  // Someone else saved the essay since it was loaded: offer to merge, overwrite or reload
+  const resolveConflict = useCallback((base: Snapshot, server: Essay) => {
+    const theirs: Snapshot = { title: server.title, content: server.content, tags: server.tags || [] };
+
+    const answer = (choice: string) => {
+      setPrompt(null);
+      const mine = latestSnapshotRef.current;
+      if (choice.startsWith("m")) {
+        const merged = mergeLines(base.content, mine.content, theirs.content);
+        versionRef.current = server.version;
+        setSavedSnapshot(theirs);
+        setTitle(mine.title === base.title ? theirs.title : mine.title);
+        setTags(mine.tags.join(" ") === base.tags.join(" ") ? theirs.tags : mine.tags);
+        setContent(merged.text);
+        showStatus(merged.conflicts > 0
+          ? `Merged with ${merged.conflicts} ${merged.conflicts === 1 ? "conflict" : "conflicts"} - resolve the <<<<<<< sections and save`
+          : "Merged - review and save (Ctrl+S)", 5000);
+      } else if (choice.startsWith("k")) {
+        versionRef.current = server.version;
+        handleSaveRef.current();
+      } else if (choice.startsWith("t")) {
+        versionRef.current = server.version;
+        setSavedSnapshot(theirs);
+        setTitle(theirs.title);
+        setTags(theirs.tags);
+        setContent(theirs.content);
+        if (server.status) setCurrentStatus(server.status);
+        showStatus("Loaded the latest version", 2000);
+      } else {
+        showStatus("Not saved - essay was changed elsewhere", 3000);
+      }
+      editorRef.current?.view?.focus();
+    };
+
+    setPrompt({
+      message: "Essay was changed elsewhere. (m)erge, (k)eep mine, (t)ake theirs, Esc to keep editing: ",
+      value: "",
+      onSubmit: (value) => answer(value.trim().toLowerCase()),
+      onCancel: () => answer(""),
+    });
+  }, [showStatus]);
+
+  // Save to the server; resolves true on success
+  // Autosaves skip invalid titles silently and don't report to the terminal
+  const handleSave = useCallback(async ({ autosave = false } = {}): Promise<boolean> => {
+    if (readOnly || isSaving) return false;
     if (!title.trim() || title === "Untitled") {
-      showStatus("Error: Please set a title first (Ctrl+E)", 3000);
-      return;
+      if (!autosave) showStatus("Error: Please set a title first (Ctrl+E)", 3000);
+      return false;
+    }
+
+    const snapshot = { title, content, tags };
+    if (isLive) {
+      // Content is persisted by the collaboration server; only title and tags go through the API
+      if (!autosave) collabSession.save();
+      if (isSameSnapshot({ ...snapshot, content: savedSnapshot.content }, savedSnapshot)) {
+        if (!autosave) showStatus("Saved!", 2000);
+        return true;
+      }
     }
 
     setIsSaving(true);
-    showStatus("Saving...", 0);
+    showStatus(autosave ? "Autosaving..." : "Saving...", 0);
     
     try {
       const url = isNew ? "/api/essays" : `/api/essays/${essay!.id}`;
       const method = isNew ? "POST" : "PUT";
 
+      // Updates name the version they're based on
+      // Live sessions leave content out, so they can't clobber it
+      const headers: Record<string, string> = {};
+      if (isLive) {
+        headers["If-Match"] = "*";
+      } else if (!isNew && versionRef.current !== undefined) {
+        headers["If-Match"] = `"${versionRef.current}"`;
+      }
+
       const res = await authFetch(url, {
         method,
-        body: JSON.stringify({ title: title.trim(), content }),
+        headers,
+        body: JSON.stringify(isLive ? { title: title.trim(), tags, autosave } : {
+          title: title.trim(),
+          content,
+          tags,
+          autosave,
+        }),
       });
 
       const data = await res.json();
 
+      if (res.status === 409 && data.essay) {
+        showStatus("Conflict: essay was changed elsewhere", 0);
+        resolveConflict(savedSnapshot, data.essay);
+        return false;
+      }
+
       if (!res.ok) {
         showStatus(`Error: ${data.error || "Failed to save"}`, 3000);
-        return;
+        return false;
+      }
+
+      versionRef.current = data.essay.version;
+      if (isLive) {
+        setSavedSnapshot((saved) => ({ ...saved, title: snapshot.title, tags: snapshot.tags }));
+      } else {
+        setSavedSnapshot(snapshot);
+        // Only drop the local draft if nothing changed while the request was in flight
+        if (draftKey && isSameSnapshot(snapshot, latestSnapshotRef.current)) {
+          deleteDraft(draftKey).catch(() => {});
+        }
       }
 
-      showStatus("Saved!", 2000);
-      onSaved(isNew ? `Essay created with ID #${data.essay.id}` : "Essay saved");
+      showStatus(autosave ? "Autosaved" : "Saved!", 2000);
+      if (!autosave) {
+        onSaved(isNew ? `Essay created with ID #${data.essay.id}` : "Essay saved");
+      }
       
       if (isNew) {
         onClose();
       }
+      return true;
     } catch {
       showStatus("Error: Network error", 3000);
+      return false;
     } finally {
       setIsSaving(false);
     }
-  }, [readOnly, isSaving, isNew, essay, title, content, onSaved, onClose, showStatus]);
+  }, [readOnly, isSaving, isNew, essay, draftKey, title, content, tags, savedSnapshot, isLive, collabSession, onSaved, onClose, showStatus, resolveConflict]);
+
+  // Latest save handler, for timers and prompts
+  const handleSaveRef = useRef(handleSave);
+  handleSaveRef.current = handleSave;
+
+  // Offer to recover a draft left over from an earlier session
+  useEffect(() => {
+    if (readOnly) return;
+    if (!draftKey) {
+      setDraftChecked(true);
+      return;
+    }
+    let cancelled = false;
+
+    getDraft(draftKey).then((draft) => {
+      if (cancelled) return;
+      if (!draft || isSameSnapshot(draft, latestSnapshotRef.current)) {
+        setDraftChecked(true);
+        return;
+      }
+
+      const savedAt = new Date(draft.savedAt).toLocaleString();
+      const answer = (recover: boolean) => {
+        if (recover) {
+          setTitle(draft.title);
+          setContent(draft.content);
+          setTags(draft.tags);
+          showStatus("Draft recovered - save to keep it", 3000);
+        } else {
+          deleteDraft(draftKey).catch(() => {});
+          showStatus("Draft discarded", 2000);
+        }
+        setPrompt(null);
+        setDraftChecked(true);
+        editorRef.current?.view?.focus();
+      };
+      setPrompt({
+        message: `Recover unsaved changes from ${savedAt}? (y/n): `,
+        value: "",
+        onSubmit: (value) => answer(value.trim().toLowerCase().startsWith("y")),
+        onCancel: () => answer(false),
+      });
+    }).catch(() => {
+      // IndexedDB unavailable (e.g. private browsing) - carry on without drafts
+      if (!cancelled) setDraftChecked(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [readOnly, draftKey, showStatus]);
+
+  // Join the essay's collaboration room once any local draft has been dealt with
+  useEffect(() => {
+    if (readOnly || !essay?.id || !draftChecked) return;
+
+    const session = createCollabSession({
+      essayId: essay.id,
+      initialContent: essay.content,
+      getContent: () => latestSnapshotRef.current.content,
+      onStatus: setCollabStatus,
+      onPeers: setPeers,
+      onContent: setContent,
+      onSaved: ({ content, essayVersion }) => {
+        // A title or tags save may already have returned a newer version
+        if (essayVersion >= (versionRef.current ?? 0)) {
+          versionRef.current = essayVersion;
+        }
+        setSavedSnapshot((saved) => ({ ...saved, content }));
+      },
+      onConflict: ({ mine, conflicts }) => {
+        const answer = (choice: string) => {
+          setPrompt(null);
+          if (choice.startsWith("k")) {
+            setContent(mine);
+            showStatus("Kept your version", 2000);
+          } else {
+            showStatus("Loaded the latest version - your offline edits were dropped", 3000);
+          }
+          editorRef.current?.view?.focus();
+        };
+        setPrompt({
+          message: `Edits made while offline clash with ${conflicts} ${conflicts === 1 ? "change" : "changes"} made meanwhile. (k)eep mine, (t)ake theirs or Esc: `,
+          value: "",
+          onSubmit: (value) => answer(value.trim().toLowerCase()),
+          onCancel: () => answer(""),
+        });
+      },
+      onError: (error) => showStatus(`Collaboration: ${error}`, 3000),
+    });
+    setCollabSession(session);
+
+    return () => {
+      session.destroy();
+      setCollabSession(null);
+      setCollabStatus("offline");
+      setPeers([]);
+    };
+  }, [readOnly, essay?.id, essay?.content, draftChecked, showStatus]);
+
+  // Persist the buffer locally while it has unsaved changes
+  useEffect(() => {
+    if (readOnly || !draftChecked || !draftKey) return;
+    const timer = setTimeout(() => {
+      const request = isDirty
+        ? saveDraft({ key: draftKey, title, content, tags, savedAt: Date.now() })
+        : deleteDraft(draftKey);
+      request.catch(() => {});
+    }, DRAFT_DELAY);
+    return () => clearTimeout(timer);
+  }, [readOnly, draftChecked, isDirty, draftKey, title, content, tags]);
+
+  // Autosave existing essays once typing pauses, but never with unresolved merge conflicts
+  useEffect(() => {
+    if (readOnly || isNew || !isDirty || !draftChecked || CONFLICT_MARKER.test(content)) return;
+    const timer = setTimeout(() => {
+      handleSaveRef.current({ autosave: true });
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [readOnly, isNew, isDirty, draftChecked, title, content, tags]);
+
+  // Warn before leaving the page with unsaved changes
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [isDirty]);
+
+  // Close, confirming first when there are unsaved changes
+  const requestClose = useCallback(() => {
+    if (!isDirty) {
+      onClose();
+      return;
+    }
+
+    setPrompt({
+      message: "You have unsaved changes. (s)ave and close, (d)iscard, Esc to keep editing: ",
+      value: "",
+      onSubmit: async (value) => {
+        const choice = value.trim().toLowerCase();
+        setPrompt(null);
+        if (choice.startsWith("s")) {
+          // New essays close themselves once created
+          if ((await handleSaveRef.current()) && !isNew) onClose();
+        } else if (choice.startsWith("d")) {
+          if (draftKey) deleteDraft(draftKey).catch(() => {});
+          onClose();
+        } else {
+          editorRef.current?.view?.focus();
+        }
+      },
+      onCancel: () => {
+        setPrompt(null);
+        editorRef.current?.view?.focus();
+      },
+    });
+  }, [isDirty, isNew, draftKey, onClose]);
 
   const handlePublish = useCallback(async () => {
     if (readOnly || isNew || isSaving) return;
@@ -222,30 +527,77 @@ export function EssayEditor({ essay, onClose, onSaved, readOnly = false, startIn
     });
   }, [title, showStatus]);
 
+  const openTagsPrompt = useCallback(() => {
+    setPrompt({
+      message: "Tags (space separated): ",
+      value: tags.join(" "),
+      onSubmit: (value) => {
+        const newTags = [...new Set(
+          value.split(/[\s,]+/).map((tag) => tag.replace(/^#/, "").toLowerCase()).filter(Boolean)
+        )];
+        setTags(newTags);
+        showStatus(newTags.length > 0 ? `Tags set to ${newTags.map((tag) => `#${tag}`).join(" ")}` : "Tags cleared", 2000);
+        setPrompt(null);
+        editorRef.current?.view?.focus();
+      },
+      onCancel: () => {
+        setPrompt(null);
+        editorRef.current?.view?.focus();
+      },
+    });
+  }, [tags, showStatus]);
+
   // Handle Ctrl+L to copy share link
-  const handleShareLink = useCallback(() => {
+  // Drafts get a secret preview link (reusing the newest one) so they can be read without an account
+  const handleShareLink = useCallback(async () => {
     if (!essay?.id) {
       showStatus("Save essay first to get a shareable link", 2000);
       return;
     }
 
-    const url = `${window.location.origin}/${essay.id}`;
-    navigator.clipboard.writeText(url).then(() => {
-      showStatus("Link copied to clipboard!", 2000);
+    let path = `/${essay.id}`;
+    let copiedMessage = "Link copied to clipboard!";
+    const openedWithKey = new URLSearchParams(window.location.search).get("key");
+    if (currentStatus === "draft" && readOnly && openedWithKey) {
+      // Pass on the preview link this draft was opened with
+      path += `?key=${encodeURIComponent(openedWithKey)}`;
+    } else if (currentStatus === "draft" && !readOnly) {
+      try {
+        const res = await authFetch(`/api/essays/${essay.id}/previews`);
+        const data = await res.json();
+        let preview = data.previews?.[0];
+        if (res.ok && !preview) {
+          const created = await authFetch(`/api/essays/${essay.id}/previews`, { method: "POST" });
+          preview = (await created.json()).preview;
+        }
+        if (!preview) {
+          showStatus(`Error: ${data.error || "Failed to create preview link"}`, 3000);
+          return;
+        }
+        path = preview.path;
+        copiedMessage = `Preview link copied! Revoke with 'preview ${essay.id} revoke'`;
+      } catch {
+        showStatus("Error: Network error", 3000);
+        return;
+      }
+    }
+
+    navigator.clipboard.writeText(`${window.location.origin}${path}`).then(() => {
+      showStatus(copiedMessage, 3000);
     }).catch(() => {
       showStatus("Failed to copy link", 2000);
     });
-  }, [essay?.id, showStatus]);
+  }, [essay?.id, currentStatus, readOnly, showStatus]);
 
-  // Handle Ctrl+D to show dictionary popup for selected word
-  const handleDictionaryLookup = useCallback(() => {
+  // The selected word and where to show a popup for it, or null (with a status) if there isn't one
+  const getSelectedWord = useCallback((): ThesaurusState | null => {
     const view = editorRef.current?.view;
-    if (!view) return;
+    if (!view) return null;
 
     const selection = view.state.selection.main;
     if (selection.empty) {
       showStatus("Select a word first", 2000);
-      return;
+      return null;
     }
 
     const selectedText = view.state.sliceDoc(selection.from, selection.to);
@@ -254,22 +606,70 @@ export function EssayEditor({ essay, onClose, onSaved, readOnly = false, startIn
     const wordMatch = selectedText.match(/^[a-zA-Z]+(?:'[a-zA-Z]+)?$/);
     if (!wordMatch) {
       showStatus("Select a single word to look up", 2000);
-      return;
+      return null;
     }
 
     // Get position for popup
     const coords = view.coordsAtPos(selection.from);
-    if (!coords) return;
+    if (!coords) return null;
 
-    setDictionaryPopup({
+    return {
       word: selectedText,
       position: {
         x: coords.left,
         y: coords.bottom + 8,
       },
-    });
+      from: selection.from,
+      to: selection.to,
+    };
   }, [showStatus]);
 
+  // Handle Ctrl+D to show dictionary popup for selected word
+  const handleDictionaryLookup = useCallback(() => {
+    const selected = getSelectedWord();
+    if (!selected) return;
+
+    setThesaurusPopup(null);
+    setDictionaryPopup({ word: selected.word, position: selected.position });
+  }, [getSelectedWord]);
+
+  // Handle Ctrl+Shift+D to show synonyms for selected word
+  const handleThesaurusLookup = useCallback(() => {
+    const selected = getSelectedWord();
+    if (!selected) return;
+
+    setDictionaryPopup(null);
+    setThesaurusPopup(selected);
+  }, [getSelectedWord]);
+
+  // Swap the looked-up word for the chosen one, keeping its capitalization
+  const handleThesaurusSelect = useCallback((replacement: string) => {
+    const view = editorRef.current?.view;
+    if (!view || !thesaurusPopup) return;
+
+    const { word, from, to } = thesaurusPopup;
+    setThesaurusPopup(null);
+
+    // Someone may have edited around it while the popup was open
+    if (view.state.sliceDoc(from, to) !== word) {
+      showStatus("The word has changed; look it up again", 2000);
+      return;
+    }
+
+    let insert = replacement;
+    if (word === word.toUpperCase() && word.length > 1) {
+      insert = replacement.toUpperCase();
+    } else if (word[0] !== word[0]!.toLowerCase()) {
+      insert = replacement[0]!.toUpperCase() + replacement.slice(1);
+    }
+
+    view.dispatch({
+      changes: { from, to, insert },
+      selection: { anchor: from, head: from + insert.length },
+    });
+    view.focus();
+  }, [thesaurusPopup, showStatus]);
+
   // Global keyboard handler
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -303,13 +703,21 @@ export function EssayEditor({ essay, onClose, onSaved, readOnly = false, startIn
             e.preventDefault();
             if (!readOnly) openTitlePrompt();
             break;
+          case "g":
+            e.preventDefault();
+            if (!readOnly) openTagsPrompt();
+            break;
           case "enter":
             e.preventDefault();
             if (!readOnly && !isNew) handleTogglePublish();
             break;
           case "d":
             e.preventDefault();
-            handleDictionaryLookup();
+            if (e.shiftKey) {
+              handleThesaurusLookup();
+            } else {
+              handleDictionaryLookup();
+            }
             break;
           case "l":
             e.preventDefault();
@@ -322,26 +730,38 @@ export function EssayEditor({ essay, onClose, onSaved, readOnly = false, startIn
       // Escape to close
       if (e.key === "Escape") {
         e.preventDefault();
-        onClose();
+        requestClose();
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [prompt, readOnly, isNew, handleSave, handleTogglePublish, onClose, openTitlePrompt, showStatus, handleDictionaryLookup, handleShareLink]);
+  }, [prompt, readOnly, isNew, handleSave, handleTogglePublish, requestClose, openTitlePrompt, openTagsPrompt, showStatus, handleDictionaryLookup, handleThesaurusLookup, handleShareLink]);
 
   // Calculate line count
   const lineCount = content.split("\n").length;
 
   // Render markdown preview
-  const renderedContent = marked(content) as string;
+  const renderedContent = renderMarkdown(content);
+
+  // Spell check in the essay's language, with the user's dictionary and this essay's ignore list
+  const spellCheck = useMemo(() => createSpellCheckExtension({
+    essayId: essay?.id,
+    language: essay?.language,
+    editable: !readOnly,
+    onError: (message) => showStatus(`Error: ${message}`, 3000),
+  }), [essay?.id, essay?.language, readOnly, showStatus]);
 
   // CodeMirror extensions - memoized to prevent recreating on every render
   const extensions = useMemo(() => [
     markdown({ base: markdownLanguage, codeLanguages: languages }),
     EditorView.lineWrapping,
-    spellCheckExtension,
-  ], []);
+    spellCheck,
+    ...(collabSession ? [collabSession.extension] : []),
+  ], [spellCheck, collabSession]);
+
+  // Other people in the room; the same account in another tab counts too
+  const peerNames = [...new Set(peers.map((peer) => peer.name))];
 
   return (
     <div className="editor-container">
@@ -353,6 +773,16 @@ export function EssayEditor({ essay, onClose, onSaved, readOnly = false, startIn
           onClose={() => setDictionaryPopup(null)}
         />
       )}
+
+      {/* Thesaurus popup */}
+      {thesaurusPopup && (
+        <ThesaurusPopup
+          word={thesaurusPopup.word}
+          position={thesaurusPopup.position}
+          onSelect={readOnly ? undefined : handleThesaurusSelect}
+          onClose={() => setThesaurusPopup(null)}
+        />
+      )}
       
       {/* Main editor area */}
       <div className="editor-main">
@@ -441,12 +871,19 @@ code block
           <div className="editor-status-line">
             <div className="editor-status-left">
               <span className="editor-title-display">{title}</span>
+              {isDirty && <span className="editor-modified-indicator">[+]</span>}
+              {tags.length > 0 && (
+                <span className="editor-tags-display">{tags.map((tag) => `#${tag}`).join(" ")}</span>
+              )}
               {!isNew && (
-                <span className={`editor-status-badge ${currentStatus === "published" ? "published" : "draft"}`}>
+                <span className={`editor-status-badge ${currentStatus}`}>
                   [{currentStatus}]
                 </span>
               )}
               {readOnly && <span className="editor-mode-indicator">[VIEW]</span>}
+              {peerNames.length > 0 && (
+                <span className="editor-collab-indicator">[with {peerNames.join(", ")}]</span>
+              )}
             </div>
             <div className="editor-status-right">
               <span className="editor-status-message">{statusMessage}</span>
@@ -455,7 +892,7 @@ code block
                 {!readOnly && (
                   <button
                     className="editor-touch-btn primary"
-                    onClick={handleSave}
+                    onClick={() => handleSave()}
                     disabled={isSaving}
                   >
                     save
@@ -469,6 +906,14 @@ code block
                     title
                   </button>
                 )}
+                {!readOnly && (
+                  <button
+                    className="editor-touch-btn"
+                    onClick={openTagsPrompt}
+                  >
+                    tags
+                  </button>
+                )}
                 <button
                   className="editor-touch-btn"
                   onClick={() => setShowPreview(prev => !prev)}
@@ -486,7 +931,7 @@ code block
                 )}
                 <button
                   className="editor-touch-btn danger"
-                  onClick={onClose}
+                  onClick={requestClose}
                 >
                   close
                 </button>
@@ -0,0 +1,146 @@
+import { useState, useEffect, useCallback } from "react";
+import { renderMarkdown } from "../lib/markdown";
+
+interface Profile {
+  username: string;
+  display_name: string;
+  bio: string;
+  created_at: string;
+}
+
+interface ProfileEssay {
+  id: string;
+  title: string;
+  tags: string[];
+  updated_at: string;
+}
+
+interface ProfileViewProps {
+  username: string;
+  onClose: () => void;
+  onOpenEssay: (id: string) => void;
+}
+
+export function ProfileView({ username, onClose, onOpenEssay }: ProfileViewProps) {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [essays, setEssays] = useState<ProfileEssay[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadPage = useCallback(async (cursor?: string) => {
+    setLoading(true);
+    try {
+      const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+      const res = await fetch(`/api/users/${encodeURIComponent(username)}${query}`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to load profile");
+        return;
+      }
+
+      setProfile(data.user);
+      setEssays((prev) => (cursor ? [...prev, ...data.essays] : data.essays));
+      setNextCursor(data.nextCursor);
+    } catch {
+      setError("Network error");
+    } finally {
+      setLoading(false);
+    }
+  }, [username]);
+
+  useEffect(() => {
+    setError(null);
+    loadPage();
+  }, [loadPage]);
+
+  // Escape to close
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        onClose();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="editor-container">
+      <div className="editor-main">
+        <div className="editor-preview-full">
+          <div className="editor-preview-content markdown-preview">
+            {error && <p className="text-error">{error}</p>}
+
+            {profile && (
+              <>
+                <h1>{profile.display_name}</h1>
+                <p className="profile-meta">
+                  @{profile.username} &middot; joined {profile.created_at.slice(0, 10)} &middot;{" "}
+                  <a href={`/u/${profile.username}/feed.xml`}>rss</a>
+                </p>
+                {profile.bio && (
+                  <div dangerouslySetInnerHTML={{ __html: renderMarkdown(profile.bio) }} />
+                )}
+
+                <h2>Essays</h2>
+                {essays.length === 0 && !loading && <p className="text-muted">No published essays yet.</p>}
+                <ul className="profile-essays">
+                  {essays.map((essay) => (
+                    <li key={essay.id}>
+                      <a
+                        href={`/${essay.id}`}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          onOpenEssay(essay.id);
+                        }}
+                      >
+                        {essay.title}
+                      </a>
+                      <span className="text-muted"> {essay.updated_at.slice(0, 10)}</span>
+                      {essay.tags.length > 0 && (
+                        <span className="text-muted"> {essay.tags.map((tag) => `#${tag}`).join(" ")}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {nextCursor && !loading && (
+                  <button className="profile-more-btn" onClick={() => loadPage(nextCursor)}>
+                    more
+                  </button>
+                )}
+              </>
+            )}
+
+            {loading && <div className="spinner" />}
+          </div>
+        </div>
+      </div>
+
+      {/* Footer status bar */}
+      <div className="editor-footer">
+        <div className="editor-status-line">
+          <div className="editor-status-left">
+            <span className="editor-title-display">{profile?.display_name || username}</span>
+            <span className="editor-mode-indicator">[PROFILE]</span>
+          </div>
+          <div className="editor-status-right">
+            <span className="editor-status-message">Esc close</span>
+            <div className="editor-touch-actions">
+              <button className="editor-touch-btn danger" onClick={onClose}>
+                close
+              </button>
+            </div>
+          </div>
+        </div>
+        <div className="editor-info-bar">
+          <span>/u/{username}</span>
+          <span>{essays.length}{nextCursor ? "+" : ""} essays</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState, useEffect, useRef } from "react";
+
+interface ThesaurusMeaning {
+  partOfSpeech: string;
+  synonyms: string[];
+  antonyms: string[];
+}
+
+interface ThesaurusEntry {
+  word: string;
+  meanings: ThesaurusMeaning[];
+}
+
+interface ThesaurusPopupProps {
+  word: string;
+  position: { x: number; y: number };
+  // Omitted in read-only mode, where words are listed but can't be chosen
+  onSelect?: (replacement: string) => void;
+  onClose: () => void;
+}
+
+export function ThesaurusPopup({ word, position, onSelect, onClose }: ThesaurusPopupProps) {
+  const [entry, setEntry] = useState<ThesaurusEntry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const popupRef = useRef<HTMLDivElement>(null);
+
+  // Fetch synonyms and antonyms
+  useEffect(() => {
+    async function fetchSynonyms() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/thesaurus/${encodeURIComponent(word.toLowerCase())}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.error || "Failed to fetch synonyms");
+          return;
+        }
+
+        setEntry(data.entry);
+      } catch (err) {
+        setError("Failed to fetch synonyms");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchSynonyms();
+  }, [word]);
+
+  // Handle click outside to close
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (popupRef.current && !popupRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    }
+
+    function handleKeyDown(event: KeyboardEvent) {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    }
+
+    document.addEventListener("mousedown", handleClickOutside);
+    document.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [onClose]);
+
+  // Adjust position to keep popup in viewport
+  const adjustedPosition = { ...position };
+  if (popupRef.current) {
+    const rect = popupRef.current.getBoundingClientRect();
+    const viewportWidth = window.innerWidth;
+    const viewportHeight = window.innerHeight;
+
+    if (rect.right > viewportWidth) {
+      adjustedPosition.x = viewportWidth - rect.width - 16;
+    }
+    if (rect.bottom > viewportHeight) {
+      adjustedPosition.y = position.y - rect.height - 16;
+    }
+  }
+
+  const renderWords = (words: string[]) => (
+    <div className="thesaurus-popup-words">
+      {words.map((candidate) => onSelect ? (
+        <button
+          key={candidate}
+          className="thesaurus-popup-word"
+          onClick={() => onSelect(candidate)}
+          title={`Replace with "${candidate}"`}
+        >
+          {candidate}
+        </button>
+      ) : (
+        <span key={candidate} className="thesaurus-popup-word">{candidate}</span>
+      ))}
+    </div>
+  );
+
+  return (
+    <div
+      ref={popupRef}
+      className="dictionary-popup"
+      style={{
+        left: adjustedPosition.x,
+        top: adjustedPosition.y,
+      }}
+    >
+      {/* Header */}
+      <div className="dictionary-popup-header">
+        <div className="dictionary-popup-word">{word}</div>
+        <div className="dictionary-popup-phonetic">thesaurus</div>
+        <button className="dictionary-popup-close" onClick={onClose}>
+          x
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="dictionary-popup-content">
+        {loading && <div className="dictionary-popup-loading">Loading...</div>}
+
+        {error && <div className="dictionary-popup-error">{error}</div>}
+
+        {entry && (
+          <div className="dictionary-popup-meanings">
+            {entry.meanings.map((meaning) => (
+              <div key={meaning.partOfSpeech} className="dictionary-popup-meaning">
+                <div className="dictionary-popup-pos">{meaning.partOfSpeech}</div>
+                {meaning.synonyms.length > 0 && renderWords(meaning.synonyms)}
+                {meaning.antonyms.length > 0 && (
+                  <>
+                    <div className="thesaurus-popup-label">opposite</div>
+                    {renderWords(meaning.antonyms)}
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { Database } from "bun:sqlite";
+
+// Word definitions, kept in their own database so it can be rebuilt or shared between
+// deployments. Filled by import-dictionary.ts from a WordNet release
+
+// Bumped when the schema changes; older dictionaries have to be imported again
+export const DICTIONARY_SCHEMA_VERSION = 1;
+
+export function createDictionarySchema(db: Database): void {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS words (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      word TEXT UNIQUE NOT NULL
+    )
+  `);
+
+  // One row per WordNet synset: a single sense shared by all of its words
+  db.run(`
+    CREATE TABLE IF NOT EXISTS synsets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      part_of_speech TEXT NOT NULL,
+      definition TEXT NOT NULL,
+      example TEXT
+    )
+  `);
+
+  // rank orders a word's senses, most common first
+  db.run(`
+    CREATE TABLE IF NOT EXISTS senses (
+      word_id INTEGER NOT NULL REFERENCES words(id) ON DELETE CASCADE,
+      synset_id INTEGER NOT NULL REFERENCES synsets(id) ON DELETE CASCADE,
+      rank INTEGER NOT NULL,
+      PRIMARY KEY (word_id, synset_id)
+    )
+  `);
+  db.run("CREATE INDEX IF NOT EXISTS idx_senses_synset_id ON senses(synset_id)");
+
+  // Opposites hold between words in particular senses: "cold" is the opposite of
+  // "hot" as a temperature, not as "hot" meaning stolen
+  db.run(`
+    CREATE TABLE IF NOT EXISTS antonyms (
+      word_id INTEGER NOT NULL REFERENCES words(id) ON DELETE CASCADE,
+      synset_id INTEGER NOT NULL REFERENCES synsets(id) ON DELETE CASCADE,
+      antonym_id INTEGER NOT NULL REFERENCES words(id) ON DELETE CASCADE,
+      PRIMARY KEY (word_id, synset_id, antonym_id)
+    )
+  `);
+
+  // Irregular forms ("geese" -> "goose") that suffix rules can't undo
+  db.run(`
+    CREATE TABLE IF NOT EXISTS inflections (
+      form TEXT NOT NULL,
+      base TEXT NOT NULL,
+      PRIMARY KEY (form, base)
+    )
+  `);
+
+  db.run(`PRAGMA user_version = ${DICTIONARY_SCHEMA_VERSION}`);
+}
+
+export interface DictionarySense {
+  part_of_speech: string;
+  definition: string;
+  example: string | null;
+}
+
+export interface RelatedWord {
+  part_of_speech: string;
+  word: string;
+}
+
+// null when the dictionary was built for an older schema
+export function openDictionary(path: string) {
+  const db = new Database(path, { readonly: true });
+
+  const { user_version } = db.prepare<{ user_version: number }, []>("PRAGMA user_version").get()!;
+  if (user_version !== DICTIONARY_SCHEMA_VERSION) {
+    db.close();
+    return null;
+  }
+
+  return {
+    findSenses: db.prepare<DictionarySense, [string]>(`
+      SELECT s.part_of_speech, s.definition, s.example
+      FROM words w
+      JOIN senses ws ON ws.word_id = w.id
+      JOIN synsets s ON s.id = ws.synset_id
+      WHERE w.word = ?
+      ORDER BY ws.rank, s.id
+    `),
+    // Other words sharing each of the word's senses, most common sense first
+    findSynonyms: db.prepare<RelatedWord, [string]>(`
+      SELECT s.part_of_speech, other.word
+      FROM words w
+      JOIN senses ws ON ws.word_id = w.id
+      JOIN synsets s ON s.id = ws.synset_id
+      JOIN senses os ON os.synset_id = s.id AND os.word_id != w.id
+      JOIN words other ON other.id = os.word_id
+      WHERE w.word = ?
+      ORDER BY ws.rank, s.id, other.word
+    `),
+    findAntonyms: db.prepare<RelatedWord, [string]>(`
+      SELECT s.part_of_speech, other.word
+      FROM words w
+      JOIN antonyms a ON a.word_id = w.id
+      JOIN senses ws ON ws.word_id = w.id AND ws.synset_id = a.synset_id
+      JOIN synsets s ON s.id = a.synset_id
+      JOIN words other ON other.id = a.antonym_id
+      WHERE w.word = ?
+      ORDER BY ws.rank, s.id, other.word
+    `),
+    findBaseForms: db.prepare<{ base: string }, [string]>(
+      "SELECT base FROM inflections WHERE form = ? ORDER BY base"
+    ),
+  };
+}
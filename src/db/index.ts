@@ -4,6 +4,9 @@ import { Database } from "bun:sqlite";
 const DATABASE_PATH = process.env.DATABASE_PATH || "disregarded.db";
 const db = new Database(DATABASE_PATH);
 
+// Enforce foreign keys so dependent rows are cleaned up with their parents
+db.run("PRAGMA foreign_keys = ON");
+
 console.log(`[db] Using database: ${DATABASE_PATH}`);
 
 // Short ID generation (5 chars, alphanumeric)
@@ -48,6 +51,22 @@ db.run(`
   )
 `);
 
+// Add a column to an existing table (no-op if it already exists)
+function addColumnIfMissing(table: string, column: string, definition: string): void {
+  const columns = db.prepare<{ name: string }, []>(`PRAGMA table_info(${table})`).all();
+  if (!columns.some((c) => c.name === column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Profile fields
+addColumnIfMissing("users", "display_name", "TEXT");
+addColumnIfMissing("users", "bio", "TEXT");
+
+// Moderation: admins can manage users and content; disabled accounts can't sign in
+addColumnIfMissing("users", "is_admin", "INTEGER NOT NULL DEFAULT 0");
+addColumnIfMissing("users", "disabled_at", "TEXT");
+
 db.run(`
   CREATE TABLE IF NOT EXISTS essays (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -62,10 +81,180 @@ db.run(`
   )
 `);
 
+// Scheduled publishing: when set, the essay is published at this time (UTC, SQLite timestamp format)
+addColumnIfMissing("essays", "publish_at", "TEXT");
+
+// Set when an essay collects enough open reports; hidden essays drop out of public listings until reviewed
+addColumnIfMissing("essays", "hidden_at", "TEXT");
+
+// Hunspell locale the editor spell checks the essay in
+addColumnIfMissing("essays", "language", "TEXT NOT NULL DEFAULT 'en_US'");
+
+// Bumped on every change to the title, content or tags; sent as the ETag that updates must match
+addColumnIfMissing("essays", "version", "INTEGER NOT NULL DEFAULT 0");
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS essay_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    essay_id INTEGER NOT NULL,
+    revision INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    content TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (essay_id, revision),
+    FOREIGN KEY (essay_id) REFERENCES essays(id) ON DELETE CASCADE
+  )
+`);
+
+// Set on revisions written by autosave or the collaboration server, which later autosaves may replace
+addColumnIfMissing("essay_revisions", "autosaved", "INTEGER NOT NULL DEFAULT 0");
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS tags (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT UNIQUE NOT NULL
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS essay_tags (
+    essay_id INTEGER NOT NULL,
+    tag_id INTEGER NOT NULL,
+    PRIMARY KEY (essay_id, tag_id),
+    FOREIGN KEY (essay_id) REFERENCES essays(id) ON DELETE CASCADE,
+    FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    refresh_token_hash TEXT UNIQUE NOT NULL,
+    user_agent TEXT,
+    ip TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    last_used_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    expires_at TEXT NOT NULL,
+    revoked_at TEXT,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+  )
+`);
+
+// People an essay's author has shared it with; the author's own access is implied by essays.user_id
+db.run(`
+  CREATE TABLE IF NOT EXISTS essay_collaborators (
+    essay_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('viewer', 'editor', 'owner')),
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (essay_id, user_id),
+    FOREIGN KEY (essay_id) REFERENCES essays(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+  )
+`);
+
+// Secret links that let anyone holding the key read a draft; deleting a row revokes the link
+db.run(`
+  CREATE TABLE IF NOT EXISTS essay_preview_keys (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    essay_id INTEGER NOT NULL,
+    key TEXT UNIQUE NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (essay_id) REFERENCES essays(id) ON DELETE CASCADE
+  )
+`);
+
+// Reports of spam or abuse on readable essays; guests are identified by IP
+db.run(`
+  CREATE TABLE IF NOT EXISTS essay_reports (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    essay_id INTEGER NOT NULL,
+    reporter_id INTEGER,
+    reporter_ip TEXT,
+    reason TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    reviewed_by INTEGER,
+    reviewed_at TEXT,
+    FOREIGN KEY (essay_id) REFERENCES essays(id) ON DELETE CASCADE,
+    FOREIGN KEY (reporter_id) REFERENCES users(id) ON DELETE SET NULL,
+    FOREIGN KEY (reviewed_by) REFERENCES users(id) ON DELETE SET NULL
+  )
+`);
+
+// Personal spell check dictionaries: words a user never wants flagged
+db.run(`
+  CREATE TABLE IF NOT EXISTS user_words (
+    user_id INTEGER NOT NULL,
+    word TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, word),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+  )
+`);
+
+// Words spell check skips in one essay only, shared by everyone editing it
+db.run(`
+  CREATE TABLE IF NOT EXISTS essay_ignored_words (
+    essay_id INTEGER NOT NULL,
+    word TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (essay_id, word),
+    FOREIGN KEY (essay_id) REFERENCES essays(id) ON DELETE CASCADE
+  )
+`);
+
+// Full-text search index over essays (title, content, author username)
+// Kept in sync with the essays table by triggers; rowid mirrors essays.id
+db.run(`
+  CREATE VIRTUAL TABLE IF NOT EXISTS essays_fts USING fts5(
+    title,
+    content,
+    author,
+    tokenize = 'porter unicode61'
+  )
+`);
+
+db.run(`
+  CREATE TRIGGER IF NOT EXISTS essays_fts_insert AFTER INSERT ON essays BEGIN
+    INSERT INTO essays_fts (rowid, title, content, author)
+    VALUES (new.id, new.title, new.content, (SELECT username FROM users WHERE id = new.user_id));
+  END
+`);
+
+db.run(`
+  CREATE TRIGGER IF NOT EXISTS essays_fts_update AFTER UPDATE OF title, content ON essays BEGIN
+    UPDATE essays_fts SET title = new.title, content = new.content WHERE rowid = new.id;
+  END
+`);
+
+db.run(`
+  CREATE TRIGGER IF NOT EXISTS essays_fts_delete AFTER DELETE ON essays BEGIN
+    DELETE FROM essays_fts WHERE rowid = old.id;
+  END
+`);
+
+// Backfill essays written before the index existed
+db.run(`
+  INSERT INTO essays_fts (rowid, title, content, author)
+  SELECT e.id, e.title, e.content, u.username
+  FROM essays e LEFT JOIN users u ON u.id = e.user_id
+  WHERE e.id NOT IN (SELECT rowid FROM essays_fts)
+`);
+
 // Create indexes for better query performance
 db.run(`CREATE INDEX IF NOT EXISTS idx_essays_user_id ON essays(user_id)`);
 db.run(`CREATE INDEX IF NOT EXISTS idx_essays_status ON essays(status)`);
 db.run(`CREATE INDEX IF NOT EXISTS idx_essays_short_id ON essays(short_id)`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_essays_status_updated ON essays(status, updated_at DESC, id DESC)`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_essays_publish_at ON essays(publish_at) WHERE publish_at IS NOT NULL`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_essays_user_updated ON essays(user_id, updated_at DESC, id DESC)`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_essay_tags_tag_id ON essay_tags(tag_id)`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id)`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_essay_collaborators_user_id ON essay_collaborators(user_id)`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_essay_reports_essay_status ON essay_reports(essay_id, status)`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_essay_preview_keys_essay_id ON essay_preview_keys(essay_id)`);
 
 export { db };
 
@@ -74,20 +263,117 @@ export interface User {
   id: number;
   username: string;
   password_hash: string;
+  display_name: string | null;
+  bio: string | null;
+  is_admin: number; // SQLite boolean (0/1)
+  disabled_at: string | null;
   created_at: string;
 }
 
+// Unlisted essays are readable by anyone with the link but left out of listings, feeds and search
+export type EssayStatus = "draft" | "unlisted" | "published";
+
 export interface Essay {
   id: number;
   short_id: string;
   user_id: number;
   title: string;
   content: string;
-  status: "draft" | "published";
+  status: EssayStatus;
+  publish_at: string | null;
+  hidden_at: string | null;
+  language: string;
+  version: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface EssayRevision {
+  id: number;
+  essay_id: number;
+  revision: number;
+  title: string;
+  content: string;
+  autosaved: number;
+  created_at: string;
+}
+
+export interface Session {
+  id: string;
+  user_id: number;
+  refresh_token_hash: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+// Essay joined with its author's username
+export type EssayWithAuthor = Essay & { author: string };
+
+export type ReportStatus = "open" | "dismissed" | "actioned";
+
+// Open reports grouped by essay, for the admin console
+export interface ReportedEssay {
+  short_id: string;
+  title: string;
+  author: string;
+  status: EssayStatus;
+  hidden_at: string | null;
+  report_count: number;
+  reasons: string; // JSON array of { reason, reporter, created_at }
+  last_reported_at: string;
+}
+
+export interface PreviewKey {
+  id: number;
+  essay_id: number;
+  key: string;
+  created_at: string;
+}
+
+// User row for the admin console, without the password hash
+export interface AdminUserSummary {
+  username: string;
+  is_admin: number;
+  disabled_at: string | null;
+  created_at: string;
+  essay_count: number;
+  published_count: number;
+}
+
+// Access levels on an essay, lowest first
+export type EssayRole = "viewer" | "editor" | "owner";
+
+export interface Collaborator {
+  user_id: number;
+  username: string;
+  role: EssayRole;
+  created_at: string;
+}
+
+// Full-text search hit on a published essay
+export interface EssaySearchResult {
+  id: number;
+  short_id: string;
+  title: string;
+  author: string;
+  snippet: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Tag with the number of essays using it
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
+// Revision listing without content
+export type EssayRevisionSummary = Omit<EssayRevision, "content"> & { length: number };
+
 // User queries
 export const userQueries = {
   create: db.prepare<User, [string, string]>(
@@ -99,6 +385,34 @@ export const userQueries = {
   findById: db.prepare<User, [number]>(
     "SELECT * FROM users WHERE id = ?"
   ),
+  updateProfile: db.prepare<User, [string | null, string | null, number]>(
+    "UPDATE users SET display_name = ?, bio = ? WHERE id = ? RETURNING *"
+  ),
+  updatePassword: db.prepare<null, [string, number]>(
+    "UPDATE users SET password_hash = ? WHERE id = ?"
+  ),
+  delete: db.prepare<null, [number]>(
+    "DELETE FROM users WHERE id = ?"
+  ),
+  // Params: is_admin (0/1), user id
+  setAdmin: db.prepare<User, [number, number]>(
+    "UPDATE users SET is_admin = ? WHERE id = ? RETURNING *"
+  ),
+  disable: db.prepare<User, [number]>(
+    "UPDATE users SET disabled_at = COALESCE(disabled_at, CURRENT_TIMESTAMP) WHERE id = ? RETURNING *"
+  ),
+  enable: db.prepare<User, [number]>(
+    "UPDATE users SET disabled_at = NULL WHERE id = ? RETURNING *"
+  ),
+  findAllForAdmin: db.prepare<AdminUserSummary, []>(
+    `SELECT u.username, u.is_admin, u.disabled_at, u.created_at,
+            COUNT(e.id) as essay_count,
+            COUNT(CASE WHEN e.status = 'published' THEN 1 END) as published_count
+     FROM users u
+     LEFT JOIN essays e ON e.user_id = u.id
+     GROUP BY u.id
+     ORDER BY u.created_at, u.id`
+  ),
 };
 
 // Essay queries
@@ -115,16 +429,337 @@ export const essayQueries = {
   findByUserId: db.prepare<Essay, [number]>(
     "SELECT * FROM essays WHERE user_id = ? ORDER BY updated_at DESC"
   ),
-  findPublished: db.prepare<Essay, []>(
-    "SELECT * FROM essays WHERE status = 'published' ORDER BY updated_at DESC"
+  findPublished: db.prepare<EssayWithAuthor, []>(
+    `SELECT e.*, COALESCE(u.username, 'Unknown') as author
+     FROM essays e
+     LEFT JOIN users u ON u.id = e.user_id
+     WHERE e.status = 'published' AND e.hidden_at IS NULL
+     ORDER BY e.updated_at DESC, e.id DESC`
+  ),
+  // Keyset pagination: pass null cursor values for the first page, null tag for no filter
+  // Params: tag, cursor updated_at, cursor id, limit
+  findPublishedPage: db.prepare<EssayWithAuthor, [string | null, string | null, number | null, number]>(
+    `SELECT e.*, COALESCE(u.username, 'Unknown') as author
+     FROM essays e
+     LEFT JOIN users u ON u.id = e.user_id
+     WHERE e.status = 'published' AND e.hidden_at IS NULL
+       AND (?1 IS NULL OR e.id IN (
+         SELECT et.essay_id FROM essay_tags et JOIN tags t ON t.id = et.tag_id WHERE t.name = ?1
+       ))
+       AND (?2 IS NULL OR (e.updated_at, e.id) < (?2, ?3))
+     ORDER BY e.updated_at DESC, e.id DESC
+     LIMIT ?4`
+  ),
+  // The user's own essays and those shared with them, with their role on each
+  // Params: user id, tag, cursor updated_at, cursor id, limit
+  findByUserIdPage: db.prepare<EssayWithAuthor & { role: EssayRole }, [number, string | null, string | null, number | null, number]>(
+    `SELECT e.*,
+            COALESCE(u.username, 'Unknown') as author,
+            CASE WHEN e.user_id = ?1 THEN 'owner' ELSE c.role END as role
+     FROM essays e
+     LEFT JOIN users u ON u.id = e.user_id
+     LEFT JOIN essay_collaborators c ON c.essay_id = e.id AND c.user_id = ?1
+     WHERE (e.user_id = ?1 OR c.user_id IS NOT NULL)
+       AND (?2 IS NULL OR e.id IN (
+         SELECT et.essay_id FROM essay_tags et JOIN tags t ON t.id = et.tag_id WHERE t.name = ?2
+       ))
+       AND (?3 IS NULL OR (e.updated_at, e.id) < (?3, ?4))
+     ORDER BY e.updated_at DESC, e.id DESC
+     LIMIT ?5`
+  ),
+  // Params: user id, cursor updated_at, cursor id, limit
+  findPublishedByUserIdPage: db.prepare<EssayWithAuthor, [number, string | null, number | null, number]>(
+    `SELECT e.*, COALESCE(u.username, 'Unknown') as author
+     FROM essays e
+     LEFT JOIN users u ON u.id = e.user_id
+     WHERE e.user_id = ?1 AND e.status = 'published' AND e.hidden_at IS NULL
+       AND (?2 IS NULL OR (e.updated_at, e.id) < (?2, ?3))
+     ORDER BY e.updated_at DESC, e.id DESC
+     LIMIT ?4`
+  ),
+  // Ranked by bm25 with title and author matches weighted above body text
+  search: db.prepare<EssaySearchResult, [string, number]>(
+    `SELECT e.id,
+            e.short_id,
+            highlight(essays_fts, 0, '<mark>', '</mark>') as title,
+            COALESCE(u.username, 'Unknown') as author,
+            snippet(essays_fts, 1, '<mark>', '</mark>', '…', 16) as snippet,
+            e.created_at,
+            e.updated_at
+     FROM essays_fts
+     JOIN essays e ON e.id = essays_fts.rowid
+     LEFT JOIN users u ON u.id = e.user_id
+     WHERE essays_fts MATCH ? AND e.status = 'published' AND e.hidden_at IS NULL
+     ORDER BY bm25(essays_fts, 10.0, 1.0, 5.0)
+     LIMIT ?`
   ),
   update: db.prepare<Essay, [string, string, string, number]>(
-    "UPDATE essays SET title = ?, content = ?, updated_at = CURRENT_TIMESTAMP WHERE short_id = ? AND user_id = ? RETURNING *"
+    "UPDATE essays SET title = ?, content = ?, version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE short_id = ? AND user_id = ? RETURNING *"
+  ),
+  // For changes outside the essays row, like its tags
+  bumpVersion: db.prepare<Essay, [number]>(
+    "UPDATE essays SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = ? RETURNING *"
+  ),
+  // Changing the status by hand (or by the scheduler) settles any pending schedule
+  updateStatus: db.prepare<Essay, [EssayStatus, string, number]>(
+    "UPDATE essays SET status = ?, publish_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE short_id = ? AND user_id = ? RETURNING *"
+  ),
+  hide: db.prepare<Essay, [number]>(
+    "UPDATE essays SET hidden_at = COALESCE(hidden_at, CURRENT_TIMESTAMP) WHERE id = ? RETURNING *"
+  ),
+  unhide: db.prepare<Essay, [number]>(
+    "UPDATE essays SET hidden_at = NULL WHERE id = ? RETURNING *"
+  ),
+  setLanguage: db.prepare<Essay, [string, string]>(
+    "UPDATE essays SET language = ? WHERE short_id = ? RETURNING *"
+  ),
+  // Params: publish_at (SQLite UTC timestamp, or null to cancel), short id
+  setPublishAt: db.prepare<Essay, [string | null, string]>(
+    "UPDATE essays SET publish_at = ? WHERE short_id = ? RETURNING *"
+  ),
+  findNextScheduled: db.prepare<{ publish_at: string }, []>(
+    "SELECT publish_at FROM essays WHERE publish_at IS NOT NULL ORDER BY publish_at LIMIT 1"
   ),
-  updateStatus: db.prepare<Essay, [string, string, number]>(
-    "UPDATE essays SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE short_id = ? AND user_id = ? RETURNING *"
+  findDueScheduled: db.prepare<Essay, []>(
+    "SELECT * FROM essays WHERE publish_at IS NOT NULL AND publish_at <= CURRENT_TIMESTAMP ORDER BY publish_at"
   ),
   delete: db.prepare<null, [string, number]>(
     "DELETE FROM essays WHERE short_id = ? AND user_id = ?"
   ),
+  // Params: created_at, updated_at (SQLite UTC timestamps), id
+  setTimestamps: db.prepare<Essay, [string, string, number]>(
+    "UPDATE essays SET created_at = ?, updated_at = ? WHERE id = ? RETURNING *"
+  ),
+  deleteByUserId: db.prepare<null, [number]>(
+    "DELETE FROM essays WHERE user_id = ?"
+  ),
+};
+
+// Revision queries
+export const revisionQueries = {
+  create: db.prepare<EssayRevision, [number, number, string, string, number]>(
+    `INSERT INTO essay_revisions (essay_id, revision, title, content, autosaved)
+     VALUES (?, COALESCE((SELECT MAX(revision) FROM essay_revisions WHERE essay_id = ?), 0) + 1, ?, ?, ?)
+     RETURNING *`
+  ),
+  // Keeps created_at, so a run of autosaves coalesces for a fixed window from its first save
+  replace: db.prepare<EssayRevision, [string, string, number]>(
+    "UPDATE essay_revisions SET title = ?, content = ? WHERE id = ? RETURNING *"
+  ),
+  keep: db.prepare<null, [number]>(
+    "UPDATE essay_revisions SET autosaved = 0 WHERE id = ?"
+  ),
+  findByEssayId: db.prepare<EssayRevisionSummary, [number]>(
+    `SELECT id, essay_id, revision, title, LENGTH(content) as length, created_at
+     FROM essay_revisions WHERE essay_id = ? ORDER BY revision DESC`
+  ),
+  findOne: db.prepare<EssayRevision, [number, number]>(
+    "SELECT * FROM essay_revisions WHERE essay_id = ? AND revision = ?"
+  ),
+  findLatest: db.prepare<EssayRevision, [number]>(
+    "SELECT * FROM essay_revisions WHERE essay_id = ? ORDER BY revision DESC LIMIT 1"
+  ),
 };
+
+// Collaborator queries
+export const collaboratorQueries = {
+  findRole: db.prepare<{ role: EssayRole }, [number, number]>(
+    "SELECT role FROM essay_collaborators WHERE essay_id = ? AND user_id = ?"
+  ),
+  findByEssayId: db.prepare<Collaborator, [number]>(
+    `SELECT c.user_id, u.username, c.role, c.created_at
+     FROM essay_collaborators c
+     JOIN users u ON u.id = c.user_id
+     WHERE c.essay_id = ?
+     ORDER BY c.created_at, u.username`
+  ),
+  // Params: essay id, user id, role
+  upsert: db.prepare<null, [number, number, EssayRole]>(
+    `INSERT INTO essay_collaborators (essay_id, user_id, role) VALUES (?, ?, ?)
+     ON CONFLICT (essay_id, user_id) DO UPDATE SET role = excluded.role`
+  ),
+  delete: db.prepare<{ user_id: number }, [number, number]>(
+    "DELETE FROM essay_collaborators WHERE essay_id = ? AND user_id = ? RETURNING user_id"
+  ),
+};
+
+// Report queries
+export const reportQueries = {
+  // Params: essay id, reporter id (null for guests), reporter ip, reason
+  create: db.prepare<{ id: number }, [number, number | null, string | null, string]>(
+    "INSERT INTO essay_reports (essay_id, reporter_id, reporter_ip, reason) VALUES (?, ?, ?, ?) RETURNING id"
+  ),
+  // Signed-in reporters are matched by account, guests by IP
+  // Params: essay id, reporter id, reporter ip
+  findOpenByReporter: db.prepare<{ id: number }, [number, number | null, string | null]>(
+    `SELECT id FROM essay_reports
+     WHERE essay_id = ?1 AND status = 'open'
+       AND (reporter_id = ?2 OR (?2 IS NULL AND reporter_id IS NULL AND reporter_ip = ?3))
+     LIMIT 1`
+  ),
+  countOpen: db.prepare<{ count: number }, [number]>(
+    "SELECT COUNT(*) as count FROM essay_reports WHERE essay_id = ? AND status = 'open'"
+  ),
+  findOpenByEssay: db.prepare<ReportedEssay, []>(
+    `SELECT e.short_id, e.title, COALESCE(u.username, 'Unknown') as author, e.status, e.hidden_at,
+            COUNT(*) as report_count,
+            json_group_array(json_object(
+              'reason', r.reason,
+              'reporter', COALESCE(ru.username, 'guest'),
+              'created_at', r.created_at
+            )) as reasons,
+            MAX(r.created_at) as last_reported_at
+     FROM essay_reports r
+     JOIN essays e ON e.id = r.essay_id
+     LEFT JOIN users u ON u.id = e.user_id
+     LEFT JOIN users ru ON ru.id = r.reporter_id
+     WHERE r.status = 'open'
+     GROUP BY e.id
+     ORDER BY report_count DESC, last_reported_at DESC`
+  ),
+  // Params: new status, reviewer id, essay id
+  resolveOpen: db.prepare<{ id: number }, [ReportStatus, number, number]>(
+    `UPDATE essay_reports SET status = ?, reviewed_by = ?, reviewed_at = CURRENT_TIMESTAMP
+     WHERE essay_id = ? AND status = 'open'
+     RETURNING id`
+  ),
+};
+
+// Preview key queries
+export const previewKeyQueries = {
+  create: db.prepare<PreviewKey, [number, string]>(
+    "INSERT INTO essay_preview_keys (essay_id, key) VALUES (?, ?) RETURNING *"
+  ),
+  findByEssayId: db.prepare<PreviewKey, [number]>(
+    "SELECT * FROM essay_preview_keys WHERE essay_id = ? ORDER BY created_at DESC, id DESC"
+  ),
+  findOne: db.prepare<PreviewKey, [number, string]>(
+    "SELECT * FROM essay_preview_keys WHERE essay_id = ? AND key = ?"
+  ),
+  delete: db.prepare<{ id: number }, [number, number]>(
+    "DELETE FROM essay_preview_keys WHERE id = ? AND essay_id = ? RETURNING id"
+  ),
+  deleteByEssayId: db.prepare<{ id: number }, [number]>(
+    "DELETE FROM essay_preview_keys WHERE essay_id = ? RETURNING id"
+  ),
+};
+
+// Spell check word list queries
+export const wordQueries = {
+  findByUserId: db.prepare<{ word: string }, [number]>(
+    "SELECT word FROM user_words WHERE user_id = ? ORDER BY word"
+  ),
+  countByUserId: db.prepare<{ count: number }, [number]>(
+    "SELECT COUNT(*) as count FROM user_words WHERE user_id = ?"
+  ),
+  addForUser: db.prepare<{ word: string }, [number, string]>(
+    "INSERT OR IGNORE INTO user_words (user_id, word) VALUES (?, ?) RETURNING word"
+  ),
+  removeForUser: db.prepare<{ word: string }, [number, string]>(
+    "DELETE FROM user_words WHERE user_id = ? AND word = ? RETURNING word"
+  ),
+  findByEssayId: db.prepare<{ word: string }, [number]>(
+    "SELECT word FROM essay_ignored_words WHERE essay_id = ? ORDER BY word"
+  ),
+  countByEssayId: db.prepare<{ count: number }, [number]>(
+    "SELECT COUNT(*) as count FROM essay_ignored_words WHERE essay_id = ?"
+  ),
+  addForEssay: db.prepare<{ word: string }, [number, string]>(
+    "INSERT OR IGNORE INTO essay_ignored_words (essay_id, word) VALUES (?, ?) RETURNING word"
+  ),
+  removeForEssay: db.prepare<{ word: string }, [number, string]>(
+    "DELETE FROM essay_ignored_words WHERE essay_id = ? AND word = ? RETURNING word"
+  ),
+};
+
+// Tag queries
+export const tagQueries = {
+  // Params: JSON array of essay ids
+  findByEssayIds: db.prepare<{ essay_id: number; name: string }, [string]>(
+    `SELECT et.essay_id, t.name
+     FROM essay_tags et
+     JOIN tags t ON t.id = et.tag_id
+     WHERE et.essay_id IN (SELECT value FROM json_each(?))
+     ORDER BY t.name`
+  ),
+  countPublished: db.prepare<TagCount, []>(
+    `SELECT t.name, COUNT(*) as count
+     FROM tags t
+     JOIN essay_tags et ON et.tag_id = t.id
+     JOIN essays e ON e.id = et.essay_id
+     WHERE e.status = 'published' AND e.hidden_at IS NULL
+     GROUP BY t.id
+     ORDER BY count DESC, t.name`
+  ),
+  countByUserId: db.prepare<TagCount, [number]>(
+    `SELECT t.name, COUNT(*) as count
+     FROM tags t
+     JOIN essay_tags et ON et.tag_id = t.id
+     JOIN essays e ON e.id = et.essay_id
+     WHERE e.user_id = ?
+     GROUP BY t.id
+     ORDER BY count DESC, t.name`
+  ),
+  upsert: db.prepare<null, [string]>(
+    "INSERT OR IGNORE INTO tags (name) VALUES (?)"
+  ),
+  addToEssay: db.prepare<null, [number, string]>(
+    "INSERT OR IGNORE INTO essay_tags (essay_id, tag_id) SELECT ?, id FROM tags WHERE name = ?"
+  ),
+  clearEssay: db.prepare<null, [number]>(
+    "DELETE FROM essay_tags WHERE essay_id = ?"
+  ),
+};
+
+// Replace an essay's tags atomically
+export const setEssayTags = db.transaction((essayId: number, names: string[]) => {
+  tagQueries.clearEssay.run(essayId);
+  for (const name of names) {
+    tagQueries.upsert.run(name);
+    tagQueries.addToEssay.run(essayId, name);
+  }
+});
+
+// Session queries
+// Expiry params are SQLite datetime modifiers, e.g. "+2592000 seconds"
+export const sessionQueries = {
+  create: db.prepare<Session, [string, number, string, string | null, string | null, string]>(
+    `INSERT INTO sessions (id, user_id, refresh_token_hash, user_agent, ip, expires_at)
+     VALUES (?, ?, ?, ?, ?, datetime('now', ?))
+     RETURNING *`
+  ),
+  findActiveById: db.prepare<Session, [string]>(
+    "SELECT * FROM sessions WHERE id = ? AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP"
+  ),
+  findActiveByTokenHash: db.prepare<Session, [string]>(
+    "SELECT * FROM sessions WHERE refresh_token_hash = ? AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP"
+  ),
+  findActiveByUserId: db.prepare<Session, [number]>(
+    `SELECT * FROM sessions
+     WHERE user_id = ? AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+     ORDER BY last_used_at DESC`
+  ),
+  // Params: new token hash, expiry modifier, session id
+  rotate: db.prepare<Session, [string, string, string]>(
+    `UPDATE sessions
+     SET refresh_token_hash = ?, expires_at = datetime('now', ?), last_used_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND revoked_at IS NULL
+     RETURNING *`
+  ),
+  revoke: db.prepare<Session, [string, number]>(
+    "UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ? AND revoked_at IS NULL RETURNING *"
+  ),
+  revokeAllForUser: db.prepare<null, [number]>(
+    "UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL"
+  ),
+  deleteExpired: db.prepare<null, []>(
+    "DELETE FROM sessions WHERE expires_at <= CURRENT_TIMESTAMP OR revoked_at <= datetime('now', '-30 days')"
+  ),
+};
+
+// Delete a user with all their essays atomically
+// Revisions, tag links, collaborators and sessions go with them via ON DELETE CASCADE
+export const deleteUserAccount = db.transaction((userId: number) => {
+  essayQueries.deleteByUserId.run(userId);
+  userQueries.delete.run(userId);
+});
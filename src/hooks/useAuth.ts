@@ -1,8 +1,10 @@
 import { useState, useEffect, useCallback } from "react";
+import { clearDrafts } from "../lib/drafts";
 
 interface User {
   id: number;
   username: string;
+  is_admin?: boolean; // Missing for sessions stored before admin roles existed
 }
 
 interface AuthState {
@@ -16,11 +18,36 @@ interface AuthActions {
   login: (username: string, password: string) => Promise<{ success: boolean; error?: string }>;
   register: (username: string, password: string) => Promise<{ success: boolean; error?: string }>;
   logout: () => void;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<{ success: boolean; error?: string }>;
+  deleteAccount: (password: string) => Promise<{ success: boolean; error?: string }>;
 }
 
 const TOKEN_KEY = "disregarded_token";
+const REFRESH_TOKEN_KEY = "disregarded_refresh_token";
 const USER_KEY = "disregarded_user";
 
+// Fired when the session can no longer be refreshed
+const SESSION_EXPIRED_EVENT = "disregarded:session-expired";
+
+function storeSession(token: string, refreshToken: string, user?: User): void {
+  localStorage.setItem(TOKEN_KEY, token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  if (user) localStorage.setItem(USER_KEY, JSON.stringify(user));
+}
+
+function clearSession(): void {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(USER_KEY);
+}
+
+// Unsaved drafts hold private text; don't leave them behind for the next person at this browser
+// Only on logout or account deletion: drafts are scoped per user, and an expired session is when they're needed
+function signOut(): void {
+  clearSession();
+  clearDrafts().catch(() => {});
+}
+
 export function useAuth(): AuthState & AuthActions {
   const [state, setState] = useState<AuthState>({
     user: null,
@@ -45,8 +72,7 @@ export function useAuth(): AuthState & AuthActions {
         });
       } catch {
         // Invalid stored data, clear it
-        localStorage.removeItem(TOKEN_KEY);
-        localStorage.removeItem(USER_KEY);
+        clearSession();
         setState((s) => ({ ...s, isLoading: false }));
       }
     } else {
@@ -54,6 +80,20 @@ export function useAuth(): AuthState & AuthActions {
     }
   }, []);
 
+  // Drop to logged-out state when authFetch can't refresh the session
+  useEffect(() => {
+    const handleExpired = () => {
+      setState({
+        user: null,
+        token: null,
+        isAuthenticated: false,
+        isLoading: false,
+      });
+    };
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+  }, []);
+
   const login = useCallback(async (username: string, password: string) => {
     try {
       const res = await fetch("/api/auth/login", {
@@ -69,8 +109,7 @@ export function useAuth(): AuthState & AuthActions {
       }
 
       // Store auth data
-      localStorage.setItem(TOKEN_KEY, data.token);
-      localStorage.setItem(USER_KEY, JSON.stringify(data.user));
+      storeSession(data.token, data.refreshToken, data.user);
 
       setState({
         user: data.user,
@@ -100,8 +139,7 @@ export function useAuth(): AuthState & AuthActions {
       }
 
       // Store auth data
-      localStorage.setItem(TOKEN_KEY, data.token);
-      localStorage.setItem(USER_KEY, JSON.stringify(data.user));
+      storeSession(data.token, data.refreshToken, data.user);
 
       setState({
         user: data.user,
@@ -117,8 +155,16 @@ export function useAuth(): AuthState & AuthActions {
   }, []);
 
   const logout = useCallback(() => {
-    localStorage.removeItem(TOKEN_KEY);
-    localStorage.removeItem(USER_KEY);
+    // Revoke the session server-side; local state is cleared regardless
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (refreshToken) {
+      fetch("/api/auth/logout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken }),
+      }).catch(() => {});
+    }
+    signOut();
     setState({
       user: null,
       token: null,
@@ -127,11 +173,63 @@ export function useAuth(): AuthState & AuthActions {
     });
   }, []);
 
+  const changePassword = useCallback(async (currentPassword: string, newPassword: string) => {
+    try {
+      const res = await authFetch("/api/auth/password", {
+        method: "PUT",
+        body: JSON.stringify({ currentPassword, newPassword }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        return { success: false, error: data.error || "Password change failed" };
+      }
+
+      // Other sessions were revoked; keep this one on the freshly issued tokens
+      storeSession(data.token, data.refreshToken);
+      setState((s) => ({ ...s, token: data.token }));
+
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: "Network error" };
+    }
+  }, []);
+
+  const deleteAccount = useCallback(async (password: string) => {
+    try {
+      const res = await authFetch("/api/account", {
+        method: "DELETE",
+        body: JSON.stringify({ password }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        return { success: false, error: data.error || "Account deletion failed" };
+      }
+
+      signOut();
+      setState({
+        user: null,
+        token: null,
+        isAuthenticated: false,
+        isLoading: false,
+      });
+
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: "Network error" };
+    }
+  }, []);
+
   return {
     ...state,
     login,
     register,
     logout,
+    changePassword,
+    deleteAccount,
   };
 }
 
@@ -140,21 +238,80 @@ export function getAuthToken(): string | null {
   return localStorage.getItem(TOKEN_KEY);
 }
 
-// Helper to make authenticated fetch requests
-export async function authFetch(url: string, options: RequestInit = {}): Promise<Response> {
-  const token = getAuthToken();
-  const headers = new Headers(options.headers);
-  
-  if (token) {
-    headers.set("Authorization", `Bearer ${token}`);
+// In-flight refresh, shared so concurrent 401s trigger a single refresh
+let refreshInFlight: Promise<boolean> | null = null;
+
+// Exchange the stored refresh token for a new token pair
+async function refreshSession(): Promise<boolean> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) {
+    // Sessions stored before refresh tokens existed can't be renewed; sign in again
+    clearSession();
+    window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+    return false;
   }
-  
-  if (!headers.has("Content-Type") && options.body) {
-    headers.set("Content-Type", "application/json");
+
+  try {
+    const res = await fetch("/api/auth/refresh", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+    });
+
+    if (!res.ok) {
+      // Another tab may have rotated the token while this request was in flight
+      if (localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken) return true;
+      if (res.status === 401) {
+        clearSession();
+        window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+      }
+      return false;
+    }
+
+    const data = await res.json();
+    storeSession(data.token, data.refreshToken);
+    return true;
+  } catch {
+    return false;
   }
+}
 
-  return fetch(url, {
-    ...options,
-    headers,
+// Refresh the session behind an access token the server rejected
+// Resolves true once a newer token is stored, including when another request already refreshed it
+export async function renewAuthToken(rejectedToken: string): Promise<boolean> {
+  if (getAuthToken() !== rejectedToken) return true;
+  refreshInFlight ??= refreshSession().finally(() => {
+    refreshInFlight = null;
   });
+  return refreshInFlight;
+}
+
+// Helper to make authenticated fetch requests
+// On a 401 the session is refreshed once and the request retried
+export async function authFetch(url: string, options: RequestInit = {}): Promise<Response> {
+  const send = (token: string | null) => {
+    const headers = new Headers(options.headers);
+
+    if (token) {
+      headers.set("Authorization", `Bearer ${token}`);
+    }
+
+    // FormData bodies need the browser to set the multipart boundary
+    if (!headers.has("Content-Type") && typeof options.body === "string") {
+      headers.set("Content-Type", "application/json");
+    }
+
+    return fetch(url, {
+      ...options,
+      headers,
+    });
+  };
+
+  const token = getAuthToken();
+  const res = await send(token);
+  if (res.status !== 401 || !token) return res;
+
+  if (!(await renewAuthToken(token))) return res;
+
+  return send(getAuthToken());
 }
@@ -6,75 +6,204 @@ interface Essay {
   id: string;
   title: string;
   content: string;
-  status: "draft" | "published";
+  status: "draft" | "unlisted" | "published";
+  publish_at?: string | null; // Scheduled publish time (UTC, "YYYY-MM-DD HH:MM:SS")
+  hidden_at?: string | null; // Set while hidden by reports, pending review
   author?: string;
+  coauthors?: string[];
+  role?: "viewer" | "editor" | "owner" | null; // Your access, for essays you can edit or that are shared with you
+  tags?: string[];
+  language?: string; // Hunspell locale used by spell check
   created_at: string;
   updated_at: string;
 }
 
+interface AdminUser {
+  username: string;
+  is_admin: boolean;
+  disabled_at: string | null;
+  created_at: string;
+  essay_count: number;
+  published_count: number;
+}
+
+interface ReportedEssay {
+  id: string;
+  title: string;
+  author: string;
+  hidden_at: string | null;
+  report_count: number;
+  reasons: { reason: string; reporter: string; created_at: string }[];
+}
+
+interface PreviewLink {
+  id: number;
+  path: string;
+  created_at: string;
+}
+
+interface Collaborator {
+  username: string;
+  role: "viewer" | "editor" | "owner";
+  created_at: string;
+}
+
+interface TagCount {
+  name: string;
+  count: number;
+}
+
+interface Revision {
+  revision: number;
+  title: string;
+  length: number;
+  created_at: string;
+}
+
+interface DiffLine {
+  type: "equal" | "add" | "remove";
+  text: string;
+}
+
+interface Session {
+  id: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_used_at: string;
+  current: boolean;
+}
+
 interface UseTerminalProps {
   isAuthenticated: boolean;
   username: string | null;
+  isAdmin: boolean;
   onLogin: (username: string, password: string) => Promise<{ success: boolean; error?: string }>;
   onRegister: (username: string, password: string) => Promise<{ success: boolean; error?: string }>;
   onLogout: () => void;
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<{ success: boolean; error?: string }>;
+  onDeleteAccount: (password: string) => Promise<{ success: boolean; error?: string }>;
   onEditEssay: (essay: Essay | null) => void;
   onViewEssay: (essay: Essay) => void;
+  onViewProfile: (username: string) => void;
 }
 
 interface InputState {
-  mode: "command" | "login_username" | "login_password" | "register_username" | "register_password" | "confirm_delete";
+  mode: "command" | "login_username" | "login_password" | "register_username" | "register_password" | "confirm_delete" | "confirm_admin_delete" | "confirm_restore" | "profile_display_name" | "profile_bio" | "passwd_current" | "passwd_new" | "passwd_confirm" | "confirm_delete_account" | "delete_account_password";
   tempData?: Record<string, string>;
 }
 
-// Fuzzy match scoring: returns a score (higher = better match), or -1 for no match
-function fuzzyMatch(text: string, query: string): number {
-  const lowerText = text.toLowerCase();
-  const lowerQuery = query.toLowerCase();
-  
-  // Exact match gets highest score
-  if (lowerText === lowerQuery) return 1000;
-  
-  // Contains exact query
-  if (lowerText.includes(lowerQuery)) {
-    // Earlier position = higher score
-    return 500 - lowerText.indexOf(lowerQuery);
-  }
-  
-  // Fuzzy character sequence match
-  let textIdx = 0;
-  let matched = 0;
-  let consecutive = 0;
-  let maxConsecutive = 0;
-  
-  for (const char of lowerQuery) {
-    const foundIdx = lowerText.indexOf(char, textIdx);
-    if (foundIdx === -1) continue;
-    
-    matched++;
-    if (foundIdx === textIdx) {
-      consecutive++;
-      maxConsecutive = Math.max(maxConsecutive, consecutive);
-    } else {
-      consecutive = 1;
-    }
-    textIdx = foundIdx + 1;
-  }
-  
-  if (matched === 0) return -1;
-  
-  // Score based on: matched chars ratio + consecutive bonus
-  return (matched / lowerQuery.length) * 100 + maxConsecutive * 10;
+// Which listing the 'more' command continues, and where it left off
+interface PagerState {
+  command: "list" | "browse";
+  cursor: string;
+  tag?: string;
+}
+
+interface ListOptions {
+  cursor?: string;
+  tag?: string;
+}
+
+// Essays fetched per page by list/browse
+const PAGE_SIZE = 20;
+
+interface SearchResult {
+  id: string;
+  title: string;
+  author: string;
+  snippet: string;
+  tags: string[];
+}
+
+// Split a "--tag <name>" flag out of command arguments
+function parseTagFlag(args: string[]): { tag?: string; rest: string[] } {
+  const index = args.indexOf("--tag");
+  if (index === -1) return { rest: args };
+  return {
+    tag: args[index + 1],
+    rest: [...args.slice(0, index), ...args.slice(index + 2)],
+  };
+}
+
+// Render an essay's tags as a muted suffix
+function renderTags(tags?: string[]): React.ReactNode {
+  if (!tags || tags.length === 0) return null;
+  return <span className="text-muted"> {tags.map((tag) => `#${tag}`).join(" ")}</span>;
+}
+
+const STATUS_CLASSES: Record<Essay["status"], string> = {
+  draft: "text-warning",
+  unlisted: "text-info",
+  published: "text-success",
+};
+
+// Render an essay's status as a fixed-width "[status]" column
+function renderStatus(status: Essay["status"]): React.ReactNode {
+  return <span className={STATUS_CLASSES[status]}>{`[${status}]`.padEnd(12)}</span>;
+}
+
+// Parse a "publish --at" time, read in the browser's time zone ("2026-11-01T09:00", "2026-11-01 09:00")
+function parseScheduleTime(input: string): Date | null {
+  let value = input.trim().replace(" ", "T");
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) value += "T00:00"; // Date-only strings would be read as UTC
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Show a server (UTC) timestamp in the browser's time zone as "YYYY-MM-DD HH:MM"
+function formatLocalTime(value: string): string {
+  const date = new Date(value.replace(" ", "T") + "Z");
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// Render search highlights (<mark>...</mark> from the server) as styled spans
+function renderHighlights(text: string): React.ReactNode[] {
+  return text.split(/(<mark>.*?<\/mark>)/g).map((part, i) => {
+    const match = part.match(/^<mark>(.*)<\/mark>$/);
+    return match ? <span key={i} className="text-highlight">{match[1]}</span> : part;
+  });
+}
+
+// Save a response body as a file, using the server-suggested file name
+async function downloadResponse(res: Response, fallbackName: string): Promise<string> {
+  const disposition = res.headers.get("Content-Disposition") || "";
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+  return filename;
+}
+
+// Open the browser file picker; resolves with no files if cancelled
+function pickFiles(accept: string, multiple = true): Promise<File[]> {
+  return new Promise((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.multiple = multiple;
+    input.addEventListener("change", () => resolve(Array.from(input.files ?? [])));
+    input.addEventListener("cancel", () => resolve([]));
+    input.click();
+  });
 }
 
 export function useTerminal({
   isAuthenticated,
   username,
+  isAdmin,
   onLogin,
   onRegister,
   onLogout,
+  onChangePassword,
+  onDeleteAccount,
   onEditEssay,
   onViewEssay,
+  onViewProfile,
 }: UseTerminalProps) {
   const [lines, setLines] = useState<OutputLine[]>([
     { id: "welcome", content: "Welcome to Disregarded.", type: "info" },
@@ -84,6 +213,7 @@ export function useTerminal({
   const [history, setHistory] = useState<string[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [inputState, setInputState] = useState<InputState>({ mode: "command" });
+  const [pager, setPager] = useState<PagerState | null>(null);
 
   const addLine = useCallback((content: React.ReactNode, type?: OutputLine["type"]) => {
     const id = `line-${Date.now()}-${Math.random().toString(36).slice(2)}`;
@@ -109,20 +239,73 @@ export function useTerminal({
       ...(isAuthenticated
         ? [
             { cmd: "logout", desc: "Log out" },
+            { cmd: "whoami", desc: "Show your account" },
+            { cmd: "sessions", desc: "List your active sessions" },
+            { cmd: "sessions revoke <id>", desc: "Sign out a session" },
+            { cmd: "passwd", desc: "Change your password" },
+            { cmd: "delete-account", desc: "Delete your account and essays" },
+            { cmd: "profile [user]", desc: "Open an author profile" },
+            { cmd: "profile edit", desc: "Set your display name and bio" },
             { cmd: "new", desc: "Create a new essay" },
-            { cmd: "list", desc: "List your essays" },
+            { cmd: "list [--tag <name>]", desc: "List your essays" },
             { cmd: "edit <id>", desc: "Edit an essay" },
             { cmd: "view <id>", desc: "View an essay" },
             { cmd: "publish <id>", desc: "Publish an essay" },
+            { cmd: "publish <id> --at <time>", desc: "Schedule publishing (local time)" },
+            { cmd: "publish <id> --cancel", desc: "Cancel a scheduled publish" },
             { cmd: "unpublish <id>", desc: "Unpublish an essay" },
+            { cmd: "unlist <id>", desc: "Make an essay readable by link only" },
+            { cmd: "preview <id> [new]", desc: "List or create secret draft links" },
+            { cmd: "preview <id> revoke [n]", desc: "Revoke one or all draft links" },
             { cmd: "delete <id>", desc: "Delete an essay" },
+            { cmd: "share <id>", desc: "List who an essay is shared with" },
+            { cmd: "share <id> <user> <role>", desc: "Share as viewer, editor or owner" },
+            { cmd: "unshare <id> <user>", desc: "Stop sharing an essay with a user" },
+            { cmd: "export <id>", desc: "Download an essay as markdown" },
+            { cmd: "import", desc: "Import markdown files as essays" },
+            { cmd: "export-all", desc: "Download all your essays as a zip" },
+            { cmd: "import-all", desc: "Restore essays from a zip backup" },
+            { cmd: "tag <id> <tags...>", desc: "Add tags to an essay" },
+            { cmd: "untag <id> <tags...>", desc: "Remove tags from an essay" },
+            { cmd: "tags", desc: "List your tags" },
+            { cmd: "lang [id]", desc: "List languages, or an essay's language" },
+            { cmd: "lang <id> <locale>", desc: "Spell check an essay in a language" },
+            { cmd: "words", desc: "List your spell check dictionary" },
+            { cmd: "words add|remove <word>", desc: "Add or remove a dictionary word" },
+            { cmd: "ignored <id>", desc: "List words spell check skips in an essay" },
+            { cmd: "ignored <id> add <word>", desc: "Skip a word in one essay" },
+            { cmd: "ignored <id> remove <word>", desc: "Stop skipping a word in an essay" },
+            { cmd: "history <id>", desc: "List revisions of an essay" },
+            { cmd: "diff <id> <rev> [rev]", desc: "Compare two revisions" },
+            { cmd: "restore <id> <rev>", desc: "Restore an earlier revision" },
             { cmd: "browse [query]", desc: "Browse/search published essays" },
+            { cmd: "browse --tag <name>", desc: "Browse published essays by tag" },
+            { cmd: "search <query>", desc: "Full-text search published essays" },
+            { cmd: "more", desc: "Show the next page of list/browse" },
+            { cmd: "report <id> <reason>", desc: "Report spam or abuse" },
+            ...(isAdmin
+              ? [
+                  { cmd: "admin users", desc: "List all users (admin)" },
+                  { cmd: "admin disable <user>", desc: "Disable an account (admin)" },
+                  { cmd: "admin enable <user>", desc: "Re-enable an account (admin)" },
+                  { cmd: "admin reports", desc: "List essays with open reports (admin)" },
+                  { cmd: "admin dismiss <id>", desc: "Dismiss reports and unhide (admin)" },
+                  { cmd: "admin unpublish <id>", desc: "Take down any essay (admin)" },
+                  { cmd: "admin delete <id>", desc: "Delete any essay (admin)" },
+                ]
+              : []),
           ]
         : [
             { cmd: "login", desc: "Log in to your account" },
             { cmd: "register", desc: "Create a new account" },
             { cmd: "browse [query]", desc: "Browse/search published essays" },
+            { cmd: "browse --tag <name>", desc: "Browse published essays by tag" },
+            { cmd: "search <query>", desc: "Full-text search published essays" },
+            { cmd: "more", desc: "Show the next page of browse" },
+            { cmd: "tags", desc: "List tags on published essays" },
             { cmd: "view <id>", desc: "View a published essay" },
+            { cmd: "profile <user>", desc: "Open an author profile" },
+            { cmd: "report <id> <reason>", desc: "Report spam or abuse" },
           ]),
     ];
 
@@ -130,21 +313,146 @@ export function useTerminal({
     commands.forEach(({ cmd, desc }) => {
       addLine(
         <span>
-          <span className="text-accent">{cmd.padEnd(16)}</span>
+          <span className="text-accent">{cmd.padEnd(28)}</span>
           <span className="text-muted">{desc}</span>
         </span>
       );
     });
-  }, [isAuthenticated, addLine]);
+  }, [isAuthenticated, isAdmin, addLine]);
+
+  // Author names link through to their profile page
+  const renderAuthor = useCallback((author: string) => (
+    <>
+      <a
+        href={`/u/${author}`}
+        className="text-special terminal-link"
+        onClick={(e) => {
+          e.preventDefault();
+          onViewProfile(author);
+        }}
+      >
+        {author}
+      </a>
+      {"".padEnd(Math.max(1, 16 - author.length))}
+    </>
+  ), [onViewProfile]);
 
   const clearTerminal = useCallback(() => {
     setLines([]);
   }, []);
 
-  const listEssays = useCallback(async () => {
+  // Remember the next page cursor (if any) and tell the user how to get it
+  const updatePager = useCallback((command: PagerState["command"], nextCursor: string | null, tag?: string) => {
+    if (nextCursor) {
+      setPager({ command, cursor: nextCursor, tag });
+      addLine("Type 'more' for the next page", "muted");
+    } else {
+      setPager(null);
+    }
+  }, [addLine]);
+
+  const listEssays = useCallback(async ({ cursor, tag }: ListOptions = {}) => {
+    setIsProcessing(true);
+    try {
+      const query = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (cursor) query.set("cursor", cursor);
+      if (tag) query.set("tag", tag);
+      const res = await authFetch(`/api/essays?${query}`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to fetch essays", "error");
+        return;
+      }
+
+      if (data.essays.length === 0) {
+        if (cursor) {
+          addLine("No more essays.", "muted");
+        } else if (tag) {
+          addLine(`No essays tagged #${tag}.`, "muted");
+        } else {
+          addLine("No essays found. Use 'new' to create one.", "muted");
+        }
+        setPager(null);
+        return;
+      }
+
+      if (!cursor) addLine(tag ? `Your essays tagged #${tag}:` : "Your essays:", "info");
+      data.essays.forEach((essay: Essay) => {
+        const shared = essay.author !== username;
+        addLine(
+          <span>
+            <span className="text-muted">#{essay.id.padEnd(6)}</span>
+            {renderStatus(essay.status)}
+            <span className="text-accent">{essay.title}</span>
+            {shared && <span className="text-muted"> (shared by {essay.author} as {essay.role})</span>}
+            {essay.publish_at && <span className="text-info"> (publishes {formatLocalTime(essay.publish_at)})</span>}
+            {essay.hidden_at && <span className="text-error"> (hidden: reported, pending review)</span>}
+            {renderTags(essay.tags)}
+          </span>
+        );
+      });
+
+      updatePager("list", data.nextCursor, tag);
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine, updatePager, username]);
+
+  const searchEssays = useCallback(async (query: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await fetch(`/api/essays/search?q=${encodeURIComponent(query)}`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Search failed", "error");
+        return;
+      }
+
+      if (data.results.length === 0) {
+        addLine(`No matches for "${query}".`, "muted");
+        return;
+      }
+
+      addLine(`Search results for "${query}":`, "info");
+      data.results.forEach((result: SearchResult) => {
+        addLine(
+          <span>
+            <span className="text-muted">#{result.id.padEnd(6)}</span>
+            {renderAuthor(result.author)}
+            <span className="text-accent">{renderHighlights(result.title)}</span>
+            {renderTags(result.tags)}
+          </span>
+        );
+        if (result.snippet) {
+          addLine(
+            <span className="text-muted">{"".padEnd(7)}{renderHighlights(result.snippet.replace(/\s+/g, " "))}</span>
+          );
+        }
+      });
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine, renderAuthor]);
+
+  const browseEssays = useCallback(async (query?: string, { cursor, tag }: ListOptions = {}) => {
+    if (query && query.trim()) {
+      setPager(null);
+      await searchEssays(query.trim());
+      return;
+    }
+
     setIsProcessing(true);
     try {
-      const res = await authFetch("/api/essays");
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (cursor) params.set("cursor", cursor);
+      if (tag) params.set("tag", tag);
+      const res = await fetch(`/api/essays/public?${params}`);
       const data = await res.json();
 
       if (!res.ok) {
@@ -153,19 +461,895 @@ export function useTerminal({
       }
 
       if (data.essays.length === 0) {
-        addLine("No essays found. Use 'new' to create one.", "muted");
+        if (cursor) {
+          addLine("No more essays.", "muted");
+        } else if (tag) {
+          addLine(`No published essays tagged #${tag}.`, "muted");
+        } else {
+          addLine("No published essays found.", "muted");
+        }
+        setPager(null);
+        return;
+      }
+
+      if (!cursor) addLine(tag ? `Published essays tagged #${tag}:` : "Published essays:", "info");
+      data.essays.forEach((essay: Essay) => {
+        addLine(
+          <span>
+            <span className="text-muted">#{essay.id.padEnd(6)}</span>
+            {renderAuthor(essay.author || "Unknown")}
+            <span className="text-accent">{essay.title}</span>
+            {renderTags(essay.tags)}
+          </span>
+        );
+      });
+
+      updatePager("browse", data.nextCursor, tag);
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine, renderAuthor, searchEssays, updatePager]);
+
+  const viewEssay = useCallback(async (id: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to fetch essay", "error");
+        return;
+      }
+
+      const essay = data.essay as Essay;
+      // Open in view mode (read-only)
+      onViewEssay(essay);
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine, onViewEssay]);
+
+  const editEssay = useCallback(async (id: string) => {
+    if (!isAuthenticated) {
+      addLine("Please login first", "error");
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to fetch essay", "error");
+        return;
+      }
+
+      const essay = data.essay as Essay;
+      if (essay.role !== "owner" && essay.role !== "editor") {
+        addLine(`You can view #${id} but not edit it`, "warning");
+        onViewEssay(essay);
+        return;
+      }
+
+      onEditEssay(essay);
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [isAuthenticated, addLine, onEditEssay, onViewEssay]);
+
+  const createNewEssay = useCallback(() => {
+    if (!isAuthenticated) {
+      addLine("Please login first", "error");
+      return;
+    }
+    onEditEssay(null); // null means new essay
+  }, [isAuthenticated, addLine, onEditEssay]);
+
+  const publishEssay = useCallback(async (id: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}/publish`, { method: "PUT" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to publish", "error");
+        return;
+      }
+
+      addLine(`Essay #${id} published successfully!`, "success");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const scheduleEssay = useCallback(async (id: string, at: string) => {
+    const publishAt = parseScheduleTime(at);
+    if (!publishAt) {
+      addLine(`Invalid time "${at}". Use e.g. 2026-11-01T09:00 (your local time)`, "error");
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}/schedule`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ publish_at: publishAt.toISOString() }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to schedule", "error");
+        return;
+      }
+
+      addLine(`Essay #${id} will be published at ${formatLocalTime(data.essay.publish_at)}`, "success");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const cancelSchedule = useCallback(async (id: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}/schedule`, { method: "DELETE" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to cancel schedule", "error");
+        return;
+      }
+
+      addLine(`Essay #${id}: scheduled publish cancelled`, "success");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const unpublishEssay = useCallback(async (id: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}/unpublish`, { method: "PUT" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to unpublish", "error");
+        return;
+      }
+
+      addLine(`Essay #${id} unpublished (now draft)`, "success");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const unlistEssay = useCallback(async (id: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}/unlist`, { method: "PUT" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to unlist", "error");
+        return;
+      }
+
+      addLine(`Essay #${id} is unlisted: readable at ${window.location.origin}/${id} but hidden from browse`, "success");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const listPreviews = useCallback(async (id: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}/previews`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to fetch preview links", "error");
+        return;
+      }
+
+      if (data.previews.length === 0) {
+        addLine(`No preview links for #${id}. Use 'preview ${id} new' to create one.`, "muted");
+        return;
+      }
+
+      addLine(`Preview links for #${id}:`, "info");
+      data.previews.forEach((preview: PreviewLink) => {
+        addLine(
+          <span>
+            <span className="text-muted">{String(preview.id).padEnd(6)}</span>
+            <span className="text-accent">{window.location.origin}{preview.path}</span>
+            <span className="text-muted"> created {preview.created_at.slice(0, 16)}</span>
+          </span>
+        );
+      });
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const createPreview = useCallback(async (id: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}/previews`, { method: "POST" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to create preview link", "error");
+        return;
+      }
+
+      addLine(`Preview link for #${id}: ${window.location.origin}${data.preview.path}`, "success");
+      addLine("Anyone with this link can read the draft until you revoke it.", "muted");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const revokePreview = useCallback(async (id: string, previewId?: string) => {
+    setIsProcessing(true);
+    try {
+      const path = previewId ? `/api/essays/${id}/previews/${encodeURIComponent(previewId)}` : `/api/essays/${id}/previews`;
+      const res = await authFetch(path, { method: "DELETE" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to revoke preview link", "error");
+        return;
+      }
+
+      addLine(`Essay #${id}: ${data.message}`, "success");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const deleteEssay = useCallback(async (id: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}`, { method: "DELETE" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to delete", "error");
+        return;
+      }
+
+      addLine(`Essay #${id} deleted`, "success");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const exportEssay = useCallback(async (id: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}/export?format=md`);
+
+      if (!res.ok) {
+        const data = await res.json();
+        addLine(data.error || "Failed to export essay", "error");
+        return;
+      }
+
+      const filename = await downloadResponse(res, `${id}.md`);
+      addLine(`Exported essay #${id} to ${filename}`, "success");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const importEssays = useCallback(async () => {
+    const files = await pickFiles(".md,.markdown,text/markdown");
+    if (files.length === 0) {
+      addLine("Import cancelled", "muted");
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const form = new FormData();
+      files.forEach((file) => form.append("files", file));
+
+      const res = await authFetch("/api/essays/import", {
+        method: "POST",
+        body: form,
+      });
+      const data = await res.json();
+
+      if (data.essays?.length) {
+        addLine(`Imported ${data.essays.length} of ${files.length} ${files.length === 1 ? "file" : "files"}:`, "success");
+        data.essays.forEach((essay: Essay) => {
+          addLine(
+            <span>
+              <span className="text-muted">#{essay.id.padEnd(6)}</span>
+              {renderStatus(essay.status)}
+              <span className="text-accent">{essay.title}</span>
+              {renderTags(essay.tags)}
+            </span>
+          );
+        });
+      } else if (!data.errors?.length) {
+        addLine(data.error || "Failed to import essays", "error");
+      }
+
+      data.errors?.forEach((failure: { file: string; error: string }) => {
+        addLine(`${failure.file}: ${failure.error}`, "error");
+      });
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const exportAccount = useCallback(async () => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch("/api/account/export");
+
+      if (!res.ok) {
+        const data = await res.json();
+        addLine(data.error || "Failed to export account", "error");
+        return;
+      }
+
+      const filename = await downloadResponse(res, "disregarded-export.zip");
+      addLine(`Exported all essays to ${filename}`, "success");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const importAccount = useCallback(async () => {
+    const [archive] = await pickFiles(".zip,application/zip", false);
+    if (!archive) {
+      addLine("Import cancelled", "muted");
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const form = new FormData();
+      form.append("archive", archive);
+
+      const res = await authFetch("/api/account/import", {
+        method: "POST",
+        body: form,
+      });
+      const data = await res.json();
+
+      if (!data.essays) {
+        addLine(data.error || "Failed to restore archive", "error");
+        return;
+      }
+
+      addLine(data.message, data.essays.length > 0 ? "success" : "warning");
+      data.essays.forEach((essay: Essay & { original_id: string | null }) => {
+        const moved = essay.original_id && essay.original_id !== essay.id;
+        addLine(
+          <span>
+            <span className="text-muted">#{essay.id.padEnd(6)}</span>
+            <span className="text-accent">{essay.title}</span>
+            {moved && <span className="text-warning"> (was #{essay.original_id}, ID already taken)</span>}
+          </span>
+        );
+      });
+      data.errors.forEach((failure: { file: string; error: string }) => {
+        addLine(`${failure.file}: ${failure.error}`, "error");
+      });
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const showHistory = useCallback(async (id: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}/revisions`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to fetch revisions", "error");
+        return;
+      }
+
+      if (data.revisions.length === 0) {
+        addLine(`No revisions recorded for essay #${id}`, "muted");
+        return;
+      }
+
+      addLine(`Revisions of essay #${id}:`, "info");
+      data.revisions.forEach((rev: Revision) => {
+        addLine(
+          <span>
+            <span className="text-muted">r{String(rev.revision).padEnd(5)}</span>
+            <span className="text-special">{rev.created_at.padEnd(21)}</span>
+            <span className="text-muted">{`${rev.length}C`.padEnd(9)}</span>
+            <span className="text-accent">{rev.title}</span>
+          </span>
+        );
+      });
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const showDiff = useCallback(async (id: string, from: string, to?: string) => {
+    setIsProcessing(true);
+    try {
+      const query = new URLSearchParams({ from });
+      if (to) query.set("to", to);
+      const res = await authFetch(`/api/essays/${id}/diff?${query}`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to diff revisions", "error");
+        return;
+      }
+
+      addLine(`Diff r${data.from} -> r${data.to} (+${data.stats.added} -${data.stats.removed}):`, "info");
+      if (data.title) {
+        addLine(`title: "${data.title.from}" -> "${data.title.to}"`, "warning");
+      }
+      if (data.stats.added === 0 && data.stats.removed === 0) {
+        addLine("No content changes", "muted");
+        return;
+      }
+      data.diff.forEach((line: DiffLine) => {
+        if (line.type === "add") {
+          addLine(`+ ${line.text}`, "success");
+        } else if (line.type === "remove") {
+          addLine(`- ${line.text}`, "error");
+        }
+      });
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const restoreRevision = useCallback(async (id: string, rev: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}/revisions/${rev}/restore`, { method: "PUT" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to restore revision", "error");
+        return;
+      }
+
+      addLine(`Essay #${id} restored to revision ${rev}`, "success");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  // Add or remove tags: fetch the current set, then replace it
+  const updateTags = useCallback(async (id: string, names: string[], action: "add" | "remove") => {
+    setIsProcessing(true);
+    try {
+      const essayRes = await authFetch(`/api/essays/${id}`);
+      const essayData = await essayRes.json();
+
+      if (!essayRes.ok) {
+        addLine(essayData.error || "Failed to fetch essay", "error");
+        return;
+      }
+
+      const current: string[] = essayData.essay.tags || [];
+      const normalized = names.map((name) => name.replace(/^#/, "").toLowerCase());
+      const tags = action === "add"
+        ? [...new Set([...current, ...normalized])]
+        : current.filter((tag) => !normalized.includes(tag));
+
+      const res = await authFetch(`/api/essays/${id}/tags`, {
+        method: "PUT",
+        body: JSON.stringify({ tags }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to update tags", "error");
+        return;
+      }
+
+      if (data.tags.length === 0) {
+        addLine(`Essay #${id} has no tags`, "success");
+      } else {
+        addLine(`Essay #${id} tags: ${data.tags.map((tag: string) => `#${tag}`).join(" ")}`, "success");
+      }
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const listTags = useCallback(async () => {
+    setIsProcessing(true);
+    try {
+      const res = await (isAuthenticated ? authFetch("/api/tags/mine") : fetch("/api/tags"));
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to fetch tags", "error");
+        return;
+      }
+
+      if (data.tags.length === 0) {
+        addLine("No tags yet. Use 'tag <id> <tags...>' to add some.", "muted");
+        return;
+      }
+
+      addLine(isAuthenticated ? "Your tags:" : "Tags on published essays:", "info");
+      data.tags.forEach((tag: TagCount) => {
+        addLine(
+          <span>
+            <span className="text-accent">{`#${tag.name}`.padEnd(24)}</span>
+            <span className="text-muted">{tag.count} {tag.count === 1 ? "essay" : "essays"}</span>
+          </span>
+        );
+      });
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [isAuthenticated, addLine]);
+
+  const showWhoami = useCallback(async () => {
+    if (!username) {
+      addLine("Not logged in (guest)", "muted");
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const res = await fetch(`/api/users/${encodeURIComponent(username)}`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to fetch profile", "error");
+        return;
+      }
+
+      addLine(
+        <span>
+          <span className="text-accent">{data.user.display_name}</span>
+          <span className="text-muted"> @{data.user.username} - joined {data.user.created_at.slice(0, 10)}</span>
+        </span>
+      );
+      addLine(data.user.bio || "No bio yet. Use 'profile edit' to add one.", "muted");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [username, addLine]);
+
+  const saveProfile = useCallback(async (displayName: string, bio: string) => {
+    // Empty input keeps the current value, "-" clears it
+    const body: Record<string, string | null> = {};
+    if (displayName) body.display_name = displayName === "-" ? null : displayName;
+    if (bio) body.bio = bio === "-" ? null : bio;
+
+    if (Object.keys(body).length === 0) {
+      addLine("Profile unchanged", "muted");
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const res = await authFetch("/api/account/profile", {
+        method: "PUT",
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to update profile", "error");
+        return;
+      }
+
+      addLine("Profile updated", "success");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const listSessions = useCallback(async () => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch("/api/auth/sessions");
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to fetch sessions", "error");
+        return;
+      }
+
+      addLine("Active sessions:", "info");
+      data.sessions.forEach((session: Session) => {
+        addLine(
+          <span>
+            <span className="text-accent">{session.id.padEnd(18)}</span>
+            <span>{(session.user_agent || "unknown client").slice(0, 40).padEnd(42)}</span>
+            <span className="text-muted">
+              {session.ip ? `${session.ip} - ` : ""}last used {session.last_used_at.slice(0, 16)}
+            </span>
+            {session.current && <span className="text-success"> (this session)</span>}
+          </span>
+        );
+      });
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const revokeSession = useCallback(async (id: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/auth/sessions/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to revoke session", "error");
+        return;
+      }
+
+      addLine(`Session ${id} revoked`, "success");
+      if (data.current) {
+        onLogout();
+        addLine("Logged out", "success");
+      }
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine, onLogout]);
+
+  const listCollaborators = useCallback(async (id: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}/collaborators`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to fetch collaborators", "error");
+        return;
+      }
+
+      addLine(`#${id} is owned by ${data.author}`, "info");
+      if (data.collaborators.length === 0) {
+        addLine("Not shared with anyone. Use 'share <id> <user> <role>' to add someone.", "muted");
+        return;
+      }
+      data.collaborators.forEach((collaborator: Collaborator) => {
+        addLine(
+          <span>
+            <span className="text-accent">{collaborator.username.padEnd(18)}</span>
+            <span>{collaborator.role.padEnd(8)}</span>
+            <span className="text-muted">since {collaborator.created_at.slice(0, 10)}</span>
+          </span>
+        );
+      });
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const shareEssay = useCallback(async (id: string, user: string, role: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}/collaborators/${encodeURIComponent(user)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to share essay", "error");
+        return;
+      }
+
+      addLine(`Essay #${id}: ${data.message}`, "success");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const unshareEssay = useCallback(async (id: string, user: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}/collaborators/${encodeURIComponent(user)}`, {
+        method: "DELETE",
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to unshare essay", "error");
+        return;
+      }
+
+      addLine(`Essay #${id}: ${data.message}`, "success");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  // Installed spell check languages, or one essay's language
+  const showLanguages = useCallback(async (id?: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await fetch("/api/spelling/languages");
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to fetch languages", "error");
+        return;
+      }
+
+      if (id) {
+        const essayRes = await authFetch(`/api/essays/${id}`);
+        const essayData = await essayRes.json();
+        if (!essayRes.ok) {
+          addLine(essayData.error || "Failed to fetch essay", "error");
+          return;
+        }
+        addLine(`Essay #${id} is spell checked in ${essayData.essay.language || data.default}`, "info");
+      }
+
+      addLine(`Installed: ${data.languages.join(", ") || "none"}`, "muted");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const setEssayLanguage = useCallback(async (id: string, language: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(`/api/essays/${id}/language`, {
+        method: "PUT",
+        body: JSON.stringify({ language }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to set language", "error");
+        return;
+      }
+
+      addLine(`Essay #${id}: ${data.message}`, "success");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  // Spell check word lists: the personal dictionary or one essay's ignore list
+  const listWords = useCallback(async (url: string, emptyMessage: string) => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch(url);
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to fetch words", "error");
+        return;
+      }
+
+      if (data.words.length === 0) {
+        addLine(emptyMessage, "muted");
+        return;
+      }
+      addLine(`${data.words.length} ${data.words.length === 1 ? "word" : "words"}:`, "info");
+      addLine(data.words.join("  "));
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const updateWords = useCallback(async (url: string, word: string, action: "add" | "remove") => {
+    setIsProcessing(true);
+    try {
+      const res = action === "add"
+        ? await authFetch(url, { method: "POST", body: JSON.stringify({ word }) })
+        : await authFetch(`${url}/${encodeURIComponent(word)}`, { method: "DELETE" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to update words", "error");
+        return;
+      }
+
+      addLine(data.message, "success");
+    } catch {
+      addLine("Network error", "error");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [addLine]);
+
+  const listAdminUsers = useCallback(async () => {
+    setIsProcessing(true);
+    try {
+      const res = await authFetch("/api/admin/users");
+      const data = await res.json();
+
+      if (!res.ok) {
+        addLine(data.error || "Failed to fetch users", "error");
         return;
       }
 
-      addLine("Your essays:", "info");
-      data.essays.forEach((essay: Essay) => {
-        const status = essay.status === "published" ? "[published]" : "[draft]";
-        const statusClass = essay.status === "published" ? "text-success" : "text-warning";
+      addLine(`${data.users.length} ${data.users.length === 1 ? "user" : "users"}:`, "info");
+      data.users.forEach((user: AdminUser) => {
         addLine(
           <span>
-            <span className="text-muted">#{essay.id.padEnd(6)}</span>
-            <span className={statusClass}>{status.padEnd(12)}</span>
-            <span className="text-accent">{essay.title}</span>
+            <span className="text-accent">{user.username.padEnd(22)}</span>
+            <span>{`${user.essay_count} essays, ${user.published_count} published`.padEnd(30)}</span>
+            <span className="text-muted">joined {user.created_at.slice(0, 10)}</span>
+            {user.is_admin && <span className="text-special"> [admin]</span>}
+            {user.disabled_at && <span className="text-error"> [disabled {user.disabled_at.slice(0, 10)}]</span>}
           </span>
         );
       });
@@ -176,56 +1360,20 @@ export function useTerminal({
     }
   }, [addLine]);
 
-  const browseEssays = useCallback(async (query?: string) => {
+  const setUserDisabled = useCallback(async (user: string, disabled: boolean) => {
     setIsProcessing(true);
     try {
-      const res = await fetch("/api/essays/public");
+      const res = await authFetch(`/api/admin/users/${encodeURIComponent(user)}/${disabled ? "disable" : "enable"}`, {
+        method: "PUT",
+      });
       const data = await res.json();
 
       if (!res.ok) {
-        addLine(data.error || "Failed to fetch essays", "error");
-        return;
-      }
-
-      if (data.essays.length === 0) {
-        addLine("No published essays found.", "muted");
+        addLine(data.error || `Failed to ${disabled ? "disable" : "enable"} user`, "error");
         return;
       }
 
-      let essays: Essay[] = data.essays;
-      
-      // Apply fuzzy search if query provided
-      if (query && query.trim()) {
-        const scored = essays.map((essay) => {
-          const titleScore = fuzzyMatch(essay.title, query);
-          const authorScore = fuzzyMatch(essay.author || "", query);
-          return { essay, score: Math.max(titleScore, authorScore) };
-        });
-        
-        // Filter to matches only, then sort by score descending
-        const matches = scored.filter((s) => s.score > 0);
-        
-        if (matches.length > 0) {
-          matches.sort((a, b) => b.score - a.score);
-          essays = matches.map((s) => s.essay);
-          addLine(`Search results for "${query}":`, "info");
-        } else {
-          // Fall back to showing all essays
-          addLine(`No matches for "${query}". Showing all published essays:`, "info");
-        }
-      } else {
-        addLine("Published essays:", "info");
-      }
-
-      essays.forEach((essay: Essay) => {
-        addLine(
-          <span>
-            <span className="text-muted">#{essay.id.padEnd(6)}</span>
-            <span className="text-special">{(essay.author || "Unknown").padEnd(16)}</span>
-            <span className="text-accent">{essay.title}</span>
-          </span>
-        );
-      });
+      addLine(data.message, "success");
     } catch {
       addLine("Network error", "error");
     } finally {
@@ -233,71 +1381,82 @@ export function useTerminal({
     }
   }, [addLine]);
 
-  const viewEssay = useCallback(async (id: string) => {
+  const forceUnpublishEssay = useCallback(async (id: string) => {
     setIsProcessing(true);
     try {
-      const res = await authFetch(`/api/essays/${id}`);
+      const res = await authFetch(`/api/admin/essays/${id}/unpublish`, { method: "PUT" });
       const data = await res.json();
 
       if (!res.ok) {
-        addLine(data.error || "Failed to fetch essay", "error");
+        addLine(data.error || "Failed to unpublish", "error");
         return;
       }
 
-      const essay = data.essay as Essay;
-      // Open in view mode (read-only)
-      onViewEssay(essay);
+      addLine(`Essay #${id} taken down (now draft)`, "success");
     } catch {
       addLine("Network error", "error");
     } finally {
       setIsProcessing(false);
     }
-  }, [addLine, onViewEssay]);
-
-  const editEssay = useCallback(async (id: string) => {
-    if (!isAuthenticated) {
-      addLine("Please login first", "error");
-      return;
-    }
+  }, [addLine]);
 
+  const listReports = useCallback(async () => {
     setIsProcessing(true);
     try {
-      const res = await authFetch(`/api/essays/${id}`);
+      const res = await authFetch("/api/admin/reports");
       const data = await res.json();
 
       if (!res.ok) {
-        addLine(data.error || "Failed to fetch essay", "error");
+        addLine(data.error || "Failed to fetch reports", "error");
+        return;
+      }
+
+      if (data.reports.length === 0) {
+        addLine("No open reports.", "muted");
         return;
       }
 
-      onEditEssay(data.essay);
+      addLine("Essays with open reports:", "info");
+      data.reports.forEach((report: ReportedEssay) => {
+        addLine(
+          <span>
+            <span className="text-muted">#{report.id.padEnd(6)}</span>
+            {renderAuthor(report.author)}
+            <span className="text-accent">{report.title}</span>
+            <span className="text-warning"> {report.report_count} {report.report_count === 1 ? "report" : "reports"}</span>
+            {report.hidden_at && <span className="text-error"> [hidden]</span>}
+          </span>
+        );
+        report.reasons.forEach(({ reason, reporter, created_at }) => {
+          addLine(
+            <span className="text-muted">{"".padEnd(7)}{created_at.slice(0, 16)} {reporter}: {reason}</span>
+          );
+        });
+      });
+      addLine("Use 'admin dismiss <id>' to clear reports, or 'admin unpublish <id>' to take an essay down.", "muted");
     } catch {
       addLine("Network error", "error");
     } finally {
       setIsProcessing(false);
     }
-  }, [isAuthenticated, addLine, onEditEssay]);
-
-  const createNewEssay = useCallback(() => {
-    if (!isAuthenticated) {
-      addLine("Please login first", "error");
-      return;
-    }
-    onEditEssay(null); // null means new essay
-  }, [isAuthenticated, addLine, onEditEssay]);
+  }, [addLine, renderAuthor]);
 
-  const publishEssay = useCallback(async (id: string) => {
+  const dismissReports = useCallback(async (id: string) => {
     setIsProcessing(true);
     try {
-      const res = await authFetch(`/api/essays/${id}/publish`, { method: "PUT" });
+      const res = await authFetch(`/api/admin/essays/${id}/reports`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: "dismissed" }),
+      });
       const data = await res.json();
 
       if (!res.ok) {
-        addLine(data.error || "Failed to publish", "error");
+        addLine(data.error || "Failed to dismiss reports", "error");
         return;
       }
 
-      addLine(`Essay #${id} published successfully!`, "success");
+      addLine(`Essay #${id}: ${data.message}`, "success");
     } catch {
       addLine("Network error", "error");
     } finally {
@@ -305,18 +1464,22 @@ export function useTerminal({
     }
   }, [addLine]);
 
-  const unpublishEssay = useCallback(async (id: string) => {
+  const reportEssay = useCallback(async (id: string, reason: string) => {
     setIsProcessing(true);
     try {
-      const res = await authFetch(`/api/essays/${id}/unpublish`, { method: "PUT" });
+      const res = await authFetch(`/api/essays/${id}/report`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      });
       const data = await res.json();
 
       if (!res.ok) {
-        addLine(data.error || "Failed to unpublish", "error");
+        addLine(data.error || "Failed to send report", "error");
         return;
       }
 
-      addLine(`Essay #${id} unpublished (now draft)`, "success");
+      addLine(data.message, "success");
     } catch {
       addLine("Network error", "error");
     } finally {
@@ -324,10 +1487,10 @@ export function useTerminal({
     }
   }, [addLine]);
 
-  const deleteEssay = useCallback(async (id: string) => {
+  const forceDeleteEssay = useCallback(async (id: string) => {
     setIsProcessing(true);
     try {
-      const res = await authFetch(`/api/essays/${id}`, { method: "DELETE" });
+      const res = await authFetch(`/api/admin/essays/${id}`, { method: "DELETE" });
       const data = await res.json();
 
       if (!res.ok) {
@@ -395,6 +1558,88 @@ export function useTerminal({
           }
           setInputState({ mode: "command" });
           return;
+
+        case "confirm_admin_delete":
+          if (input.toLowerCase() === "yes" || input.toLowerCase() === "y") {
+            await forceDeleteEssay(tempData.id!);
+          } else {
+            addLine("Delete cancelled", "muted");
+          }
+          setInputState({ mode: "command" });
+          return;
+
+        case "profile_display_name":
+          addLine(`Display name: ${input}`, "muted");
+          setInputState({ mode: "profile_bio", tempData: { displayName: input } });
+          addLine("Bio (markdown, Enter to keep, '-' to clear):", "info");
+          return;
+
+        case "profile_bio":
+          addLine(`Bio: ${input}`, "muted");
+          setInputState({ mode: "command" });
+          await saveProfile(tempData.displayName || "", input);
+          return;
+
+        case "confirm_restore":
+          if (input.toLowerCase() === "yes" || input.toLowerCase() === "y") {
+            await restoreRevision(tempData.id!, tempData.rev!);
+          } else {
+            addLine("Restore cancelled", "muted");
+          }
+          setInputState({ mode: "command" });
+          return;
+
+        case "passwd_current":
+          addLine("Current password: ********", "muted");
+          setInputState({ mode: "passwd_new", tempData: { currentPassword: input } });
+          addLine("New password:", "info");
+          return;
+
+        case "passwd_new":
+          addLine("New password: ********", "muted");
+          setInputState({ mode: "passwd_confirm", tempData: { ...tempData, newPassword: input } });
+          addLine("Confirm new password:", "info");
+          return;
+
+        case "passwd_confirm":
+          addLine("Confirm new password: ********", "muted");
+          setInputState({ mode: "command" });
+          if (input !== tempData.newPassword) {
+            addLine("Passwords do not match", "error");
+            return;
+          }
+          setIsProcessing(true);
+          const passwdResult = await onChangePassword(tempData.currentPassword!, input);
+          setIsProcessing(false);
+          if (passwdResult.success) {
+            addLine("Password changed. Other sessions have been signed out.", "success");
+          } else {
+            addLine(passwdResult.error || "Password change failed", "error");
+          }
+          return;
+
+        case "confirm_delete_account":
+          if (input.toLowerCase() === "yes" || input.toLowerCase() === "y") {
+            setInputState({ mode: "delete_account_password" });
+            addLine("Password:", "info");
+          } else {
+            addLine("Account deletion cancelled", "muted");
+            setInputState({ mode: "command" });
+          }
+          return;
+
+        case "delete_account_password":
+          addLine("Password: ********", "muted");
+          setInputState({ mode: "command" });
+          setIsProcessing(true);
+          const deleteResult = await onDeleteAccount(input);
+          setIsProcessing(false);
+          if (deleteResult.success) {
+            addLine("Account deleted. Goodbye.", "success");
+          } else {
+            addLine(deleteResult.error || "Account deletion failed", "error");
+          }
+          return;
       }
       return;
     }
@@ -455,16 +1700,236 @@ export function useTerminal({
         createNewEssay();
         break;
 
-      case "list":
+      case "list": {
+        const { tag } = parseTagFlag(args);
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else if (args.includes("--tag") && !tag) {
+          addLine("Usage: list [--tag <name>]", "warning");
+        } else {
+          await listEssays({ tag });
+        }
+        break;
+      }
+
+      case "browse": {
+        const { tag, rest } = parseTagFlag(args);
+        if (args.includes("--tag") && !tag) {
+          addLine("Usage: browse [query] [--tag <name>]", "warning");
+        } else {
+          await browseEssays(rest.join(" ") || undefined, { tag });
+        }
+        break;
+      }
+
+      case "export":
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else if (!args[0]) {
+          addLine("Usage: export <id>", "warning");
+        } else {
+          await exportEssay(args[0]);
+        }
+        break;
+
+      case "import":
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else {
+          addLine("Choose markdown files to import...", "muted");
+          await importEssays();
+        }
+        break;
+
+      case "export-all":
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else {
+          await exportAccount();
+        }
+        break;
+
+      case "import-all":
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else {
+          addLine("Choose a backup archive to restore...", "muted");
+          await importAccount();
+        }
+        break;
+
+      case "tag":
+      case "untag":
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else if (!args[0] || args.length < 2) {
+          addLine(`Usage: ${cmd} <id> <tags...>`, "warning");
+        } else {
+          await updateTags(args[0], args.slice(1), cmd === "tag" ? "add" : "remove");
+        }
+        break;
+
+      case "share":
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else if (!args[0] || args.length === 2) {
+          addLine("Usage: share <id> [<user> <viewer|editor|owner>]", "warning");
+        } else if (args.length === 1) {
+          await listCollaborators(args[0]);
+        } else {
+          await shareEssay(args[0], args[1]!, args[2]!);
+        }
+        break;
+
+      case "unshare":
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else if (!args[0] || !args[1]) {
+          addLine("Usage: unshare <id> <user>", "warning");
+        } else {
+          await unshareEssay(args[0], args[1]);
+        }
+        break;
+
+      case "lang":
+        if (args.length === 0) {
+          await showLanguages();
+        } else if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else if (args.length === 1) {
+          await showLanguages(args[0]);
+        } else {
+          await setEssayLanguage(args[0]!, args[1]!);
+        }
+        break;
+
+      case "words":
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else if (args.length === 0) {
+          await listWords("/api/account/words", "Your dictionary is empty. Add words with 'words add <word>' or from a spelling warning in the editor.");
+        } else if ((args[0] === "add" || args[0] === "remove") && args[1]) {
+          await updateWords("/api/account/words", args[1], args[0]);
+        } else {
+          addLine("Usage: words [add|remove <word>]", "warning");
+        }
+        break;
+
+      case "ignored":
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else if (args.length === 1) {
+          await listWords(`/api/essays/${args[0]}/ignored-words`, `No words are ignored in #${args[0]}.`);
+        } else if (args[0] && (args[1] === "add" || args[1] === "remove") && args[2]) {
+          await updateWords(`/api/essays/${args[0]}/ignored-words`, args[2], args[1]);
+        } else {
+          addLine("Usage: ignored <id> [add|remove <word>]", "warning");
+        }
+        break;
+
+      case "tags":
+        await listTags();
+        break;
+
+      case "whoami":
+        await showWhoami();
+        break;
+
+      case "passwd":
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else {
+          addLine("Current password:", "info");
+          setInputState({ mode: "passwd_current" });
+        }
+        break;
+
+      case "delete-account":
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else {
+          addLine(`Permanently delete account '${username}' and all of its essays? This cannot be undone. (yes/no)`, "warning");
+          setInputState({ mode: "confirm_delete_account" });
+        }
+        break;
+
+      case "sessions":
         if (!isAuthenticated) {
           addLine("Please login first", "error");
+        } else if (args[0] === "revoke") {
+          if (!args[1]) {
+            addLine("Usage: sessions revoke <id>", "warning");
+          } else {
+            await revokeSession(args[1]);
+          }
+        } else {
+          await listSessions();
+        }
+        break;
+
+      case "profile":
+        if (args[0] === "edit") {
+          if (!isAuthenticated) {
+            addLine("Please login first", "error");
+          } else {
+            addLine("Display name (Enter to keep, '-' to clear):", "info");
+            setInputState({ mode: "profile_display_name" });
+          }
+        } else if (args[0]) {
+          onViewProfile(args[0]);
+        } else if (username) {
+          onViewProfile(username);
+        } else {
+          addLine("Usage: profile <username>", "warning");
+        }
+        break;
+
+      case "report":
+        if (!args[0] || args.length < 2) {
+          addLine("Usage: report <id> <reason>", "warning");
+        } else {
+          await reportEssay(args[0], args.slice(1).join(" "));
+        }
+        break;
+
+      case "admin":
+        if (!isAdmin) {
+          addLine(`Unknown command: ${cmd}. Type 'help' for available commands.`, "error");
+        } else if (args[0] === "users") {
+          await listAdminUsers();
+        } else if (args[0] === "reports") {
+          await listReports();
+        } else if (args[0] === "dismiss" && args[1]) {
+          await dismissReports(args[1]);
+        } else if ((args[0] === "disable" || args[0] === "enable") && args[1]) {
+          await setUserDisabled(args[1], args[0] === "disable");
+        } else if (args[0] === "unpublish" && args[1]) {
+          await forceUnpublishEssay(args[1]);
+        } else if (args[0] === "delete" && args[1]) {
+          addLine(`Delete essay #${args[1]} for its author? This cannot be undone. (yes/no)`, "warning");
+          setInputState({ mode: "confirm_admin_delete", tempData: { id: args[1] } });
+        } else {
+          addLine("Usage: admin users | admin reports | admin disable|enable <user> | admin dismiss|unpublish|delete <id>", "warning");
+        }
+        break;
+
+      case "more":
+      case "next":
+        if (!pager) {
+          addLine("Nothing more to show. Run 'list' or 'browse' first.", "muted");
+        } else if (pager.command === "list") {
+          await listEssays({ cursor: pager.cursor, tag: pager.tag });
         } else {
-          await listEssays();
+          await browseEssays(undefined, { cursor: pager.cursor, tag: pager.tag });
         }
         break;
 
-      case "browse":
-        await browseEssays(args.join(" ") || undefined);
+      case "search":
+        if (args.length === 0) {
+          addLine("Usage: search <query>", "warning");
+        } else {
+          await searchEssays(args.join(" "));
+        }
         break;
 
       case "view":
@@ -487,7 +1952,15 @@ export function useTerminal({
         if (!isAuthenticated) {
           addLine("Please login first", "error");
         } else if (!args[0]) {
-          addLine("Usage: publish <id>", "warning");
+          addLine("Usage: publish <id> [--at <time> | --cancel]", "warning");
+        } else if (args[1] === "--at") {
+          if (!args[2]) {
+            addLine("Usage: publish <id> --at <time>, e.g. 2026-11-01T09:00", "warning");
+          } else {
+            await scheduleEssay(args[0], args.slice(2).join(" "));
+          }
+        } else if (args[1] === "--cancel") {
+          await cancelSchedule(args[0]);
         } else {
           await publishEssay(args[0]);
         }
@@ -503,6 +1976,30 @@ export function useTerminal({
         }
         break;
 
+      case "unlist":
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else if (!args[0]) {
+          addLine("Usage: unlist <id>", "warning");
+        } else {
+          await unlistEssay(args[0]);
+        }
+        break;
+
+      case "preview":
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else if (!args[0]) {
+          addLine("Usage: preview <id> [new | revoke [link-id]]", "warning");
+        } else if (args[1] === "new") {
+          await createPreview(args[0]);
+        } else if (args[1] === "revoke") {
+          await revokePreview(args[0], args[2]);
+        } else {
+          await listPreviews(args[0]);
+        }
+        break;
+
       case "delete":
         if (!isAuthenticated) {
           addLine("Please login first", "error");
@@ -514,11 +2011,43 @@ export function useTerminal({
         }
         break;
 
+      case "history":
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else if (!args[0]) {
+          addLine("Usage: history <id>", "warning");
+        } else {
+          await showHistory(args[0]);
+        }
+        break;
+
+      case "diff":
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else if (!args[0] || !args[1]) {
+          addLine("Usage: diff <id> <rev> [rev]", "warning");
+        } else {
+          await showDiff(args[0], args[1], args[2]);
+        }
+        break;
+
+      case "restore":
+        if (!isAuthenticated) {
+          addLine("Please login first", "error");
+        } else if (!args[0] || !args[1]) {
+          addLine("Usage: restore <id> <rev>", "warning");
+        } else {
+          addLine(`Restore essay #${args[0]} to revision ${args[1]}? (yes/no)`, "warning");
+          setInputState({ mode: "confirm_restore", tempData: { id: args[0], rev: args[1] } });
+        }
+        break;
+
       default:
         addLine(`Unknown command: ${cmd}. Type 'help' for available commands.`, "error");
     }
   }, [
     inputState,
+    pager,
     isAuthenticated,
     username,
     addLine,
@@ -527,14 +2056,52 @@ export function useTerminal({
     onLogin,
     onRegister,
     onLogout,
+    onChangePassword,
+    onDeleteAccount,
     createNewEssay,
     listEssays,
     browseEssays,
+    searchEssays,
     viewEssay,
     editEssay,
     publishEssay,
+    scheduleEssay,
+    cancelSchedule,
     unpublishEssay,
+    unlistEssay,
+    listPreviews,
+    createPreview,
+    revokePreview,
     deleteEssay,
+    exportEssay,
+    importEssays,
+    exportAccount,
+    importAccount,
+    showHistory,
+    showDiff,
+    restoreRevision,
+    updateTags,
+    listTags,
+    showWhoami,
+    saveProfile,
+    listSessions,
+    revokeSession,
+    listCollaborators,
+    shareEssay,
+    unshareEssay,
+    showLanguages,
+    setEssayLanguage,
+    listWords,
+    updateWords,
+    isAdmin,
+    listAdminUsers,
+    setUserDisabled,
+    forceUnpublishEssay,
+    forceDeleteEssay,
+    listReports,
+    dismissReports,
+    reportEssay,
+    onViewProfile,
   ]);
 
   return {
@@ -1,5 +1,5 @@
 import { serve } from "bun";
-import { register, login } from "./api/auth";
+import { register, login, refresh, logout, getSessions, revokeSession, changePassword, deleteAccount } from "./api/auth";
 
 // In production, serve pre-built files from dist/
 // In development, use runtime bundling
@@ -7,6 +7,7 @@ const isProduction = process.env.NODE_ENV === "production";
 const index = isProduction ? null : (await import("./index.html")).default;
 import {
   getPublishedEssays,
+  searchEssays,
   getUserEssays,
   getEssay,
   createEssay,
@@ -14,8 +15,32 @@ import {
   deleteEssay,
   publishEssay,
   unpublishEssay,
+  unlistEssay,
+  scheduleEssay,
+  cancelSchedule,
+  getRevisions,
+  getRevision,
+  diffRevisions,
+  restoreRevision,
+  setTags,
+  setLanguage,
+  getPublicTags,
+  getUserTags,
 } from "./api/essays";
-import { requireAuth, optionalAuth } from "./api/middleware";
+import { requireAuth, requireAdmin, optionalAuth, loginRateLimit, reportRateLimit, recordSocketAddress } from "./api/middleware";
+import { getUserProfile, updateProfile } from "./api/users";
+import { renderEssayPage } from "./api/pages";
+import { getSiteFeed, getAuthorFeed } from "./api/feeds";
+import { exportEssay, importEssays, exportAccount, importAccount } from "./api/transfer";
+import { getCollaborators, shareEssay, unshareEssay } from "./api/collaborators";
+import { getPreviewKeys, createPreviewKey, revokePreviewKeys } from "./api/previews";
+import { collabWebSocket, collabSocketData, type CollabSocketData } from "./api/collab";
+import { armPublishScheduler } from "./api/scheduler";
+import { grantBootstrapAdmins, getUsers, disableUser, enableUser, forceUnpublishEssay, forceDeleteEssay, getReports, resolveReports } from "./api/admin";
+import { reportEssay } from "./api/reports";
+import { getDefinition, getSynonyms } from "./api/dictionary";
+import { getSpellingLanguages, getSpellingDictionary } from "./api/spelling";
+import { getUserWords, addUserWord, removeUserWord, getIgnoredWords, ignoreWord, unignoreWord } from "./api/words";
 
 // Server port (default: 3000)
 const PORT = parseInt(process.env.PORT || "3000", 10);
@@ -45,6 +70,15 @@ function matchRoute(pathname: string, pattern: string): Record<string, string> |
   return params;
 }
 
+// Get the SPA HTML shell (pre-built in production, bundled on demand in development)
+async function getAppShell(req: Request): Promise<string> {
+  if (isProduction) {
+    return Bun.file("dist/index.html").text();
+  }
+  const res = await fetch(new URL("/", req.url));
+  return res.text();
+}
+
 const server = serve({
   port: PORT,
 
@@ -54,7 +88,8 @@ const server = serve({
   },
 
   // Use fetch for API routing and static file serving
-  async fetch(req) {
+  async fetch(req, server) {
+    recordSocketAddress(req, server.requestIP(req)?.address);
     const url = new URL(req.url);
     const { pathname } = url;
 
@@ -72,33 +107,137 @@ const server = serve({
 
     const method = req.method;
 
-    // Serve dictionary files for spell checking
-    if (pathname.startsWith("/dictionaries/")) {
-      const filename = pathname.replace("/dictionaries/", "");
-      const dictPath = `node_modules/typo-js/dictionaries/en_US/${filename}`;
-      const file = Bun.file(dictPath);
-      if (await file.exists()) {
-        return new Response(file, {
-          headers: { "Content-Type": "text/plain" },
-        });
-      }
-      return new Response("Dictionary not found", { status: 404 });
+    // Serve dictionary files for spell checking: /dictionaries/<locale>.aff and .dic
+    const dictionaryMatch = pathname.match(/^\/dictionaries\/([^/]+)$/);
+    if (dictionaryMatch && method === "GET") {
+      (req as any).params = { file: dictionaryMatch[1] };
+      return getSpellingDictionary(req as any);
     }
 
     // API Routes
     if (pathname.startsWith("/api/")) {
+      let params: Record<string, string> | null;
+
       // Auth routes
       if (pathname === "/api/auth/register" && method === "POST") {
         return register(req);
       }
       if (pathname === "/api/auth/login" && method === "POST") {
-        return login(req);
+        return loginRateLimit(login)(req);
+      }
+      if (pathname === "/api/auth/refresh" && method === "POST") {
+        return refresh(req);
+      }
+      if (pathname === "/api/auth/logout" && method === "POST") {
+        return logout(req);
+      }
+      if (pathname === "/api/auth/password" && method === "PUT") {
+        return requireAuth(changePassword)(req);
+      }
+      if (pathname === "/api/auth/sessions" && method === "GET") {
+        return requireAuth(getSessions)(req);
+      }
+      params = matchRoute(pathname, "/api/auth/sessions/:id");
+      if (params && method === "DELETE") {
+        (req as any).params = params;
+        return requireAuth(revokeSession as any)(req);
       }
 
       // Public essays
       if (pathname === "/api/essays/public" && method === "GET") {
         return getPublishedEssays(req);
       }
+      if (pathname === "/api/essays/search" && method === "GET") {
+        return searchEssays(req);
+      }
+
+      // Users and account
+      params = matchRoute(pathname, "/api/users/:username");
+      if (params && method === "GET") {
+        (req as any).params = params;
+        return getUserProfile(req as any);
+      }
+      if (pathname === "/api/account/profile" && method === "PUT") {
+        return requireAuth(updateProfile)(req);
+      }
+      if (pathname === "/api/account/export" && method === "GET") {
+        return requireAuth(exportAccount)(req);
+      }
+      if (pathname === "/api/account/import" && method === "POST") {
+        return requireAuth(importAccount)(req);
+      }
+      if (pathname === "/api/account" && method === "DELETE") {
+        return requireAuth(deleteAccount)(req);
+      }
+
+      // Spell check languages and personal dictionary
+      if (pathname === "/api/spelling/languages" && method === "GET") {
+        return getSpellingLanguages(req);
+      }
+      if (pathname === "/api/account/words" && method === "GET") {
+        return requireAuth(getUserWords)(req);
+      }
+      if (pathname === "/api/account/words" && method === "POST") {
+        return requireAuth(addUserWord)(req);
+      }
+      params = matchRoute(pathname, "/api/account/words/:word");
+      if (params && method === "DELETE") {
+        (req as any).params = params;
+        return requireAuth(removeUserWord as any)(req);
+      }
+
+      // Admin console
+      if (pathname === "/api/admin/users" && method === "GET") {
+        return requireAdmin(getUsers)(req);
+      }
+      params = matchRoute(pathname, "/api/admin/users/:username/disable");
+      if (params && method === "PUT") {
+        (req as any).params = params;
+        return requireAdmin(disableUser as any)(req);
+      }
+      params = matchRoute(pathname, "/api/admin/users/:username/enable");
+      if (params && method === "PUT") {
+        (req as any).params = params;
+        return requireAdmin(enableUser as any)(req);
+      }
+      if (pathname === "/api/admin/reports" && method === "GET") {
+        return requireAdmin(getReports)(req);
+      }
+      params = matchRoute(pathname, "/api/admin/essays/:id/reports");
+      if (params && method === "PUT") {
+        (req as any).params = params;
+        return requireAdmin(resolveReports as any)(req);
+      }
+      params = matchRoute(pathname, "/api/admin/essays/:id/unpublish");
+      if (params && method === "PUT") {
+        (req as any).params = params;
+        return requireAdmin(forceUnpublishEssay as any)(req);
+      }
+      params = matchRoute(pathname, "/api/admin/essays/:id");
+      if (params && method === "DELETE") {
+        (req as any).params = params;
+        return requireAdmin(forceDeleteEssay as any)(req);
+      }
+
+      // Dictionary and thesaurus lookup
+      params = matchRoute(pathname, "/api/define/:word");
+      if (params && method === "GET") {
+        (req as any).params = params;
+        return getDefinition(req as any);
+      }
+      params = matchRoute(pathname, "/api/thesaurus/:word");
+      if (params && method === "GET") {
+        (req as any).params = params;
+        return getSynonyms(req as any);
+      }
+
+      // Tags
+      if (pathname === "/api/tags" && method === "GET") {
+        return getPublicTags(req);
+      }
+      if (pathname === "/api/tags/mine" && method === "GET") {
+        return requireAuth(getUserTags)(req);
+      }
 
       // Essays list/create
       if (pathname === "/api/essays" && method === "GET") {
@@ -107,9 +246,12 @@ const server = serve({
       if (pathname === "/api/essays" && method === "POST") {
         return requireAuth(createEssay)(req);
       }
+      if (pathname === "/api/essays/import" && method === "POST") {
+        return requireAuth(importEssays)(req);
+      }
 
-      // Essay by ID routes - check for publish/unpublish first (more specific)
-      let params = matchRoute(pathname, "/api/essays/:id/publish");
+      // Essay by ID routes - check for publish/unpublish/unlist first (more specific)
+      params = matchRoute(pathname, "/api/essays/:id/publish");
       if (params && method === "PUT") {
         (req as any).params = params;
         return requireAuth(publishEssay as any)(req);
@@ -121,6 +263,139 @@ const server = serve({
         return requireAuth(unpublishEssay as any)(req);
       }
 
+      params = matchRoute(pathname, "/api/essays/:id/unlist");
+      if (params && method === "PUT") {
+        (req as any).params = params;
+        return requireAuth(unlistEssay as any)(req);
+      }
+
+      params = matchRoute(pathname, "/api/essays/:id/schedule");
+      if (params) {
+        (req as any).params = params;
+        if (method === "PUT") {
+          return requireAuth(scheduleEssay as any)(req);
+        }
+        if (method === "DELETE") {
+          return requireAuth(cancelSchedule as any)(req);
+        }
+      }
+
+      params = matchRoute(pathname, "/api/essays/:id/tags");
+      if (params && method === "PUT") {
+        (req as any).params = params;
+        return requireAuth(setTags as any)(req);
+      }
+
+      params = matchRoute(pathname, "/api/essays/:id/language");
+      if (params && method === "PUT") {
+        (req as any).params = params;
+        return requireAuth(setLanguage as any)(req);
+      }
+
+      // Content reports (guests included)
+      params = matchRoute(pathname, "/api/essays/:id/report");
+      if (params && method === "POST") {
+        (req as any).params = params;
+        return reportRateLimit(optionalAuth(reportEssay as any))(req);
+      }
+
+      // Collaborators
+      params = matchRoute(pathname, "/api/essays/:id/collaborators");
+      if (params && method === "GET") {
+        (req as any).params = params;
+        return requireAuth(getCollaborators as any)(req);
+      }
+
+      params = matchRoute(pathname, "/api/essays/:id/collaborators/:username");
+      if (params) {
+        (req as any).params = params;
+        if (method === "PUT") {
+          return requireAuth(shareEssay as any)(req);
+        }
+        if (method === "DELETE") {
+          return requireAuth(unshareEssay as any)(req);
+        }
+      }
+
+      // Spell check ignore lists
+      params = matchRoute(pathname, "/api/essays/:id/ignored-words");
+      if (params) {
+        (req as any).params = params;
+        if (method === "GET") {
+          return requireAuth(getIgnoredWords as any)(req);
+        }
+        if (method === "POST") {
+          return requireAuth(ignoreWord as any)(req);
+        }
+      }
+
+      params = matchRoute(pathname, "/api/essays/:id/ignored-words/:word");
+      if (params && method === "DELETE") {
+        (req as any).params = params;
+        return requireAuth(unignoreWord as any)(req);
+      }
+
+      // Secret preview links
+      params = matchRoute(pathname, "/api/essays/:id/previews");
+      if (params) {
+        (req as any).params = params;
+        if (method === "GET") {
+          return requireAuth(getPreviewKeys as any)(req);
+        }
+        if (method === "POST") {
+          return requireAuth(createPreviewKey as any)(req);
+        }
+        if (method === "DELETE") {
+          return requireAuth(revokePreviewKeys as any)(req);
+        }
+      }
+
+      params = matchRoute(pathname, "/api/essays/:id/previews/:keyId");
+      if (params && method === "DELETE") {
+        (req as any).params = params;
+        return requireAuth(revokePreviewKeys as any)(req);
+      }
+
+      // Revision history
+      params = matchRoute(pathname, "/api/essays/:id/revisions");
+      if (params && method === "GET") {
+        (req as any).params = params;
+        return requireAuth(getRevisions as any)(req);
+      }
+
+      params = matchRoute(pathname, "/api/essays/:id/revisions/:rev/restore");
+      if (params && method === "PUT") {
+        (req as any).params = params;
+        return requireAuth(restoreRevision as any)(req);
+      }
+
+      params = matchRoute(pathname, "/api/essays/:id/revisions/:rev");
+      if (params && method === "GET") {
+        (req as any).params = params;
+        return requireAuth(getRevision as any)(req);
+      }
+
+      params = matchRoute(pathname, "/api/essays/:id/diff");
+      if (params && method === "GET") {
+        (req as any).params = params;
+        return requireAuth(diffRevisions as any)(req);
+      }
+
+      params = matchRoute(pathname, "/api/essays/:id/export");
+      if (params && method === "GET") {
+        (req as any).params = params;
+        return requireAuth(exportEssay as any)(req);
+      }
+
+      // Collaborative editing socket; authentication happens over the socket itself
+      params = matchRoute(pathname, "/api/essays/:id/collab");
+      if (params && method === "GET") {
+        if (server.upgrade(req, { data: collabSocketData(params.id!) })) {
+          return;
+        }
+        return Response.json({ error: "WebSocket upgrade required" }, { status: 426 });
+      }
+
       // Single essay operations
       params = matchRoute(pathname, "/api/essays/:id");
       if (params) {
@@ -140,6 +415,27 @@ const server = serve({
       return Response.json({ error: "Not found" }, { status: 404 });
     }
 
+    // Syndication feeds: feed.xml (RSS 2.0) and atom.xml (Atom)
+    const feedMatch = pathname.match(/^(?:\/u\/([a-zA-Z0-9_]+))?\/(feed|atom)\.xml$/);
+    if (feedMatch && method === "GET") {
+      const format = feedMatch[2] === "atom" ? "atom" : "rss";
+      if (feedMatch[1]) {
+        (req as any).params = { username: feedMatch[1], format };
+        return getAuthorFeed(req as any);
+      }
+      (req as any).params = { format };
+      return getSiteFeed(req as any);
+    }
+
+    // Server-render published essays so crawlers and link unfurlers see content
+    const essayMatch = pathname.match(/^\/([a-zA-Z0-9]+)$/);
+    if (essayMatch && method === "GET") {
+      const page = renderEssayPage(req, essayMatch[1]!, await getAppShell(req));
+      if (page) {
+        return page;
+      }
+    }
+
     // For SPA routing - serve index.html for all non-API routes
     if (isProduction) {
       // Production: serve pre-built HTML
@@ -150,6 +446,8 @@ const server = serve({
     return fetch(rootUrl);
   },
 
+  websocket: collabWebSocket,
+
   development: process.env.NODE_ENV !== "production" && {
     hmr: true,
     console: true,
@@ -157,3 +455,8 @@ const server = serve({
 });
 
 console.log(`Server running at ${server.url}`);
+
+// Publish essays whose time came while the server was down, and wait for the rest
+armPublishScheduler();
+
+grantBootstrapAdmins();
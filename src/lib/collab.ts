@@ -0,0 +1,431 @@
+// Client side of real-time collaborative editing
+// Syncs a CodeMirror document with the server's room over WebSocket using @codemirror/collab
+// and shows the other editors' cursors; the server side lives in src/api/collab.ts
+
+import { ChangeSet, Compartment, StateEffect, StateField, Text, Transaction, type Extension } from "@codemirror/state";
+import { Decoration, EditorView, ViewPlugin, WidgetType, type DecorationSet } from "@codemirror/view";
+import { collab, getSyncedVersion, receiveUpdates, sendableUpdates } from "@codemirror/collab";
+import { getAuthToken, renewAuthToken } from "../hooks/useAuth";
+import { mergeLines, replacementBetween } from "./diff";
+
+// Another editor in the room, with their selection in document positions
+export interface Peer {
+  peer: number;
+  name: string;
+  cursor: { anchor: number; head: number } | null;
+}
+
+// A change set serialized with ChangeSet.toJSON
+export interface WireUpdate {
+  clientID: string;
+  changes: unknown;
+}
+
+export type ClientMessage =
+  | { type: "auth"; token: string }
+  | { type: "push"; version: number; updates: WireUpdate[] }
+  | { type: "cursor"; anchor: number; head: number }
+  | { type: "save" };
+
+export type ServerMessage =
+  | { type: "init"; version: number; doc: string; peers: Peer[] }
+  | { type: "updates"; updates: WireUpdate[] }
+  | { type: "pushed"; ok: boolean }
+  | { type: "join"; peer: Peer }
+  | { type: "cursor"; peer: Peer }
+  | { type: "leave"; peer: number }
+  | { type: "saved"; version: number; essayVersion: number }
+  | { type: "error"; error: string };
+
+export type CollabStatus = "connecting" | "live" | "offline";
+
+export interface CollabOptions {
+  essayId: string;
+  initialContent: string; // Content the editor was opened with
+  getContent: () => string; // Current buffer, used while no editor view is mounted
+  onStatus: (status: CollabStatus) => void;
+  onPeers: (peers: Peer[]) => void;
+  onContent: (content: string) => void; // Remote changes that arrive while no view is mounted
+  onSaved: (saved: { content: string; essayVersion: number }) => void;
+  // Edits made while disconnected that clash with the room's; they're kept out of it until the user decides
+  onConflict: (conflict: { mine: string; conflicts: number }) => void;
+  onError: (error: string) => void;
+}
+
+export interface CollabSession {
+  extension: Extension;
+  save: () => void;
+  destroy: () => void;
+}
+
+// Close codes from the server that mean reconnecting won't help
+const CLOSE_UNAUTHORIZED = 4001;
+const FINAL_CLOSE_CODES = new Set([4000, 4003, 4004]);
+
+const MAX_RECONNECT_DELAY = 10000;
+
+// Number of collab-peer-N color classes
+const PEER_COLORS = 6;
+
+const setPeersEffect = StateEffect.define<Peer[]>();
+
+// Remote cursors, mapped through document changes until the next update from their owner
+const peersField = StateField.define<Peer[]>({
+  create: () => [],
+  update(peers, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(setPeersEffect)) return effect.value;
+    }
+    if (!tr.docChanged) return peers;
+    return peers.map((peer) => peer.cursor ? {
+      ...peer,
+      cursor: {
+        anchor: tr.changes.mapPos(peer.cursor.anchor),
+        head: tr.changes.mapPos(peer.cursor.head),
+      },
+    } : peer);
+  },
+  provide: (field) => EditorView.decorations.from(field, buildCursorDecorations),
+});
+
+class CaretWidget extends WidgetType {
+  constructor(readonly name: string, readonly color: number) {
+    super();
+  }
+
+  override eq(other: CaretWidget): boolean {
+    return other.name === this.name && other.color === this.color;
+  }
+
+  override toDOM(): HTMLElement {
+    const caret = document.createElement("span");
+    caret.className = `collab-caret collab-peer-${this.color}`;
+    const label = document.createElement("span");
+    label.className = "collab-caret-label";
+    label.textContent = this.name;
+    caret.appendChild(label);
+    return caret;
+  }
+
+  override ignoreEvent(): boolean {
+    return true;
+  }
+}
+
+function buildCursorDecorations(peers: Peer[]): DecorationSet {
+  const ranges = [];
+  for (const peer of peers) {
+    if (!peer.cursor) continue;
+    const color = peer.peer % PEER_COLORS;
+    const from = Math.min(peer.cursor.anchor, peer.cursor.head);
+    const to = Math.max(peer.cursor.anchor, peer.cursor.head);
+    if (from < to) {
+      ranges.push(Decoration.mark({ class: `collab-selection collab-peer-${color}` }).range(from, to));
+    }
+    ranges.push(Decoration.widget({ widget: new CaretWidget(peer.name, color), side: 1 }).range(peer.cursor.head));
+  }
+  return Decoration.set(ranges, true);
+}
+
+// Everforest accents, from the palette variables in index.css
+const collabTheme = EditorView.baseTheme({
+  ".collab-caret": {
+    position: "relative",
+    borderLeft: "2px solid var(--peer-color)",
+    marginLeft: "-1px",
+    marginRight: "-1px",
+  },
+  ".collab-caret-label": {
+    position: "absolute",
+    bottom: "100%",
+    left: "-2px",
+    padding: "0 0.25rem",
+    fontSize: "0.7rem",
+    lineHeight: "1.2",
+    whiteSpace: "nowrap",
+    color: "var(--color-bg-dim)",
+    backgroundColor: "var(--peer-color)",
+    pointerEvents: "none",
+  },
+  ".collab-selection": {
+    backgroundColor: "color-mix(in srgb, var(--peer-color) 25%, transparent)",
+  },
+  ".collab-peer-0": { "--peer-color": "var(--color-aqua)" },
+  ".collab-peer-1": { "--peer-color": "var(--color-purple)" },
+  ".collab-peer-2": { "--peer-color": "var(--color-orange)" },
+  ".collab-peer-3": { "--peer-color": "var(--color-blue)" },
+  ".collab-peer-4": { "--peer-color": "var(--color-yellow)" },
+  ".collab-peer-5": { "--peer-color": "var(--color-red)" },
+});
+
+function toText(content: string): Text {
+  return Text.of(content.split(/\r\n?|\n/));
+}
+
+// Join the collaboration room for an essay
+// The returned extension must be added to the editor; the session keeps running
+// (and keeps the buffer current through onContent) while no editor view is mounted
+export function createCollabSession(options: CollabOptions): CollabSession {
+  const clientID = Math.random().toString(36).slice(2);
+  const compartment = new Compartment();
+
+  let ws: WebSocket | null = null;
+  let destroyed = false;
+  let reconnectDelay = 1000;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let renewedToken = false;
+
+  // Server state as of the last message received
+  let synced: { version: number; doc: Text } | null = null;
+  // Last document known to be on the server: the merge base when reconnecting with local edits
+  let base = toText(options.initialContent);
+  let pushing = false;
+  let peers: Peer[] = [];
+
+  // The mounted view, and the view once it runs collab at the synced version
+  let mountedView: EditorView | null = null;
+  let collabView: EditorView | null = null;
+
+  function send(message: ClientMessage): void {
+    if (ws?.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+
+  function showPeers(): void {
+    options.onPeers(peers);
+    if (collabView) {
+      const length = collabView.state.doc.length;
+      const clamp = (pos: number) => Math.max(0, Math.min(pos, length));
+      collabView.dispatch({
+        effects: setPeersEffect.of(peers.map((peer) => peer.cursor ? {
+          ...peer,
+          cursor: { anchor: clamp(peer.cursor.anchor), head: clamp(peer.cursor.head) },
+        } : peer)),
+      });
+    }
+  }
+
+  function push(): void {
+    if (!collabView || pushing || ws?.readyState !== WebSocket.OPEN) return;
+    const updates = sendableUpdates(collabView.state);
+    if (updates.length === 0) return;
+
+    pushing = true;
+    send({
+      type: "push",
+      version: getSyncedVersion(collabView.state),
+      updates: updates.map((update) => ({ clientID: update.clientID, changes: update.changes.toJSON() })),
+    });
+  }
+
+  function sendCursor(view: EditorView): void {
+    const { anchor, head } = view.state.selection.main;
+    send({ type: "cursor", anchor, head });
+  }
+
+  // Bring a view to the synced document and restart collab there, then reapply the wanted text
+  // as a local edit so it gets pushed
+  function resetView(view: EditorView, target: string): void {
+    if (!synced) return;
+    const annotations = [Transaction.addToHistory.of(false), Transaction.remote.of(true)];
+    const current = view.state.doc.toString();
+    const server = synced.doc.toString();
+
+    view.dispatch({
+      changes: current === server ? [] : replacementBetween(current, server),
+      effects: compartment.reconfigure([]),
+      annotations,
+    });
+    view.dispatch({
+      effects: compartment.reconfigure(collab({ startVersion: synced.version, clientID })),
+      annotations,
+    });
+    collabView = view;
+
+    if (target !== server) {
+      view.dispatch({ changes: replacementBetween(server, target) });
+    }
+    showPeers();
+    sendCursor(view);
+    push();
+  }
+
+  function handleMessage(message: ServerMessage): void {
+    switch (message.type) {
+      case "init": {
+        const local = mountedView ? mountedView.state.doc.toString() : options.getContent();
+        const baseText = base.toString();
+        // Keep edits made while disconnected, merged with whatever happened on the server meanwhile
+        // A merge with conflicts would push its markers to everyone, so the room's version wins for now
+        const merged = local === baseText ? null : mergeLines(baseText, local, message.doc);
+        const target = merged && merged.conflicts === 0 ? merged.text : message.doc;
+
+        synced = { version: message.version, doc: toText(message.doc) };
+        base = synced.doc;
+        pushing = false;
+        peers = message.peers;
+        reconnectDelay = 1000;
+        renewedToken = false;
+        options.onStatus("live");
+
+        if (mountedView) {
+          resetView(mountedView, target);
+        } else {
+          options.onPeers(peers);
+          if (target !== options.getContent()) options.onContent(target);
+        }
+        if (merged && merged.conflicts > 0) {
+          options.onConflict({ mine: local, conflicts: merged.conflicts });
+        }
+        break;
+      }
+
+      case "updates": {
+        if (!synced) return;
+        const updates = message.updates.map((update) => ({
+          clientID: update.clientID,
+          changes: ChangeSet.fromJSON(update.changes),
+        }));
+        for (const update of updates) {
+          synced.doc = update.changes.apply(synced.doc);
+        }
+        synced.version += updates.length;
+
+        if (collabView) {
+          collabView.dispatch(receiveUpdates(collabView.state, updates));
+          if (sendableUpdates(collabView.state).length === 0) base = synced.doc;
+        } else {
+          base = synced.doc;
+          options.onContent(synced.doc.toString());
+        }
+        break;
+      }
+
+      case "pushed":
+        pushing = false;
+        push();
+        break;
+
+      case "join":
+        peers = [...peers, message.peer];
+        showPeers();
+        break;
+
+      case "cursor":
+        peers = peers.map((peer) => peer.peer === message.peer.peer ? message.peer : peer);
+        showPeers();
+        break;
+
+      case "leave":
+        peers = peers.filter((peer) => peer.peer !== message.peer);
+        showPeers();
+        break;
+
+      case "saved":
+        if (synced && message.version === synced.version) {
+          options.onSaved({ content: synced.doc.toString(), essayVersion: message.essayVersion });
+        }
+        break;
+
+      case "error":
+        options.onError(message.error);
+        break;
+    }
+  }
+
+  function connect(): void {
+    const token = getAuthToken();
+    if (!token) {
+      options.onStatus("offline");
+      return;
+    }
+
+    options.onStatus("connecting");
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const socket = new WebSocket(`${protocol}//${window.location.host}/api/essays/${options.essayId}/collab`);
+    ws = socket;
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ type: "auth", token } satisfies ClientMessage));
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        handleMessage(JSON.parse(event.data));
+      } catch (error) {
+        console.error("Collab message error:", error);
+        socket.close();
+      }
+    };
+
+    socket.onclose = async (event) => {
+      if (ws !== socket) return;
+      ws = null;
+      pushing = false;
+      peers = [];
+      options.onPeers(peers);
+      if (collabView) {
+        collabView.dispatch({ effects: setPeersEffect.of([]) });
+      }
+      if (destroyed) return;
+
+      if (FINAL_CLOSE_CODES.has(event.code)) {
+        options.onStatus("offline");
+        if (event.reason) options.onError(event.reason);
+        return;
+      }
+
+      // Access tokens are short-lived; renew once before giving up
+      if (event.code === CLOSE_UNAUTHORIZED) {
+        if (renewedToken || !(await renewAuthToken(token))) {
+          options.onStatus("offline");
+          return;
+        }
+        renewedToken = true;
+        if (!destroyed) connect();
+        return;
+      }
+
+      options.onStatus("connecting");
+      reconnectTimer = setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+    };
+  }
+
+  // Tracks the mounted editor view and forwards local edits and cursor moves
+  const viewPlugin = ViewPlugin.define((view) => {
+    mountedView = view;
+    // Views can't be updated while they're being constructed
+    queueMicrotask(() => {
+      if (mountedView === view && synced) resetView(view, view.state.doc.toString());
+    });
+
+    return {
+      update(update) {
+        if (update.view !== collabView) return;
+        const local = update.transactions.some((tr) => !tr.annotation(Transaction.remote));
+        if (!local) return;
+        if (update.docChanged) push();
+        if (update.docChanged || update.selectionSet) sendCursor(update.view);
+      },
+      destroy() {
+        if (mountedView === view) mountedView = null;
+        if (collabView === view) collabView = null;
+      },
+    };
+  });
+
+  connect();
+
+  return {
+    extension: [compartment.of([]), peersField, collabTheme, viewPlugin],
+    save: () => send({ type: "save" }),
+    destroy: () => {
+      destroyed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      ws?.close(1000);
+      ws = null;
+    },
+  };
+}
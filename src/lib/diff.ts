@@ -0,0 +1,264 @@
+// Line-based text diff using Myers' O(ND) algorithm, in its linear-space form
+// Used to compare essay revisions and to merge concurrent edits
+
+export interface DiffLine {
+  type: "equal" | "add" | "remove";
+  text: string;
+}
+
+// Work allowed per diff, counted in line comparisons; past it the remaining differences
+// are reported as one block removed and one added rather than searched line by line
+const MAX_DIFF_COST = 10_000_000;
+
+interface DiffContext {
+  a: string[];
+  b: string[];
+  result: DiffLine[];
+  budget: number;
+}
+
+function pushLines(ctx: DiffContext, type: DiffLine["type"], lines: string[], from: number, to: number): void {
+  for (let i = from; i < to; i++) {
+    ctx.result.push({ type, text: lines[i]! });
+  }
+}
+
+// Diff a[aLo, aHi) against b[bLo, bHi), appending to the result
+function diffRange(ctx: DiffContext, aLo: number, aHi: number, bLo: number, bHi: number): void {
+  const { a, b } = ctx;
+
+  // Common prefix and suffix need no search
+  const prefixStart = aLo;
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    aLo++;
+    bLo++;
+  }
+  pushLines(ctx, "equal", a, prefixStart, aLo);
+
+  let suffix = 0;
+  while (aHi - suffix > aLo && bHi - suffix > bLo && a[aHi - suffix - 1] === b[bHi - suffix - 1]) {
+    suffix++;
+  }
+  aHi -= suffix;
+  bHi -= suffix;
+
+  if (aLo === aHi || bLo === bHi) {
+    pushLines(ctx, "remove", a, aLo, aHi);
+    pushLines(ctx, "add", b, bLo, bHi);
+  } else {
+    const split = middleSnake(ctx, aLo, aHi, bLo, bHi);
+    if (split) {
+      diffRange(ctx, aLo, split.x, bLo, split.y);
+      diffRange(ctx, split.x, aHi, split.y, bHi);
+    } else {
+      pushLines(ctx, "remove", a, aLo, aHi);
+      pushLines(ctx, "add", b, bLo, bHi);
+    }
+  }
+
+  pushLines(ctx, "equal", a, aHi, aHi + suffix);
+}
+
+// Search forwards from the start and backwards from the end at once until the paths meet,
+// and return a point on the shortest edit script to split the problem at
+// Null when the ranges share nothing or the work budget runs out
+function middleSnake(ctx: DiffContext, aLo: number, aHi: number, bLo: number, bHi: number): { x: number; y: number } | null {
+  const { a, b } = ctx;
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const size = 2 * maxD + 2;
+
+  // forward[k + offset] / backward[k + offset]: furthest x reached on diagonal k, -1 if not yet
+  const forward = new Int32Array(size).fill(-1);
+  const backward = new Int32Array(size).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+
+  const delta = n - m;
+  // With an odd delta the paths meet while extending forwards, otherwise backwards
+  const checkForward = delta % 2 !== 0;
+
+  // Diagonals that ran off the edge of the grid are skipped from then on
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    ctx.budget -= 2 * d + 2;
+    if (ctx.budget <= 0) return null;
+
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      const i = offset + k;
+      let x = k === -d || (k !== d && forward[i - 1]! < forward[i + 1]!) ? forward[i + 1]! : forward[i - 1]! + 1;
+      let y = x - k;
+      const start = x;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      ctx.budget -= x - start;
+      forward[i] = x;
+
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (checkForward) {
+        const j = offset + delta - k;
+        if (j >= 0 && j < size && backward[j] !== -1 && x >= n - backward[j]!) {
+          return { x: aLo + x, y: bLo + y };
+        }
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      const i = offset + k;
+      let x = k === -d || (k !== d && backward[i - 1]! < backward[i + 1]!) ? backward[i + 1]! : backward[i - 1]! + 1;
+      let y = x - k;
+      const start = x;
+      while (x < n && y < m && a[aHi - x - 1] === b[bHi - y - 1]) {
+        x++;
+        y++;
+      }
+      ctx.budget -= x - start;
+      backward[i] = x;
+
+      if (x > n) {
+        backwardEnd += 2;
+      } else if (y > m) {
+        backwardStart += 2;
+      } else if (!checkForward) {
+        const j = offset + delta - k;
+        if (j >= 0 && j < size && forward[j] !== -1) {
+          const forwardX = forward[j]!;
+          const forwardY = offset + forwardX - j;
+          if (forwardX >= n - x) {
+            return { x: aLo + forwardX, y: bLo + forwardY };
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+// Compute the shortest edit script between two texts, line by line
+// Memory stays linear in the number of lines; very different texts fall back to a block replace
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const ctx: DiffContext = {
+    a: oldText.split("\n"),
+    b: newText.split("\n"),
+    result: [],
+    budget: MAX_DIFF_COST,
+  };
+  diffRange(ctx, 0, ctx.a.length, 0, ctx.b.length);
+  return ctx.result;
+}
+
+// Summarize a diff as added/removed line counts
+export function diffStats(diff: DiffLine[]): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const line of diff) {
+    if (line.type === "add") added++;
+    else if (line.type === "remove") removed++;
+  }
+  return { added, removed };
+}
+
+export interface MergeResult {
+  text: string;
+  conflicts: number;
+}
+
+// For each line of oldText, the index of the matching line in newText, or -1 if it was removed
+function matchLines(oldText: string, newText: string): number[] {
+  const matches: number[] = [];
+  let j = 0;
+  for (const line of diffLines(oldText, newText)) {
+    if (line.type === "equal") {
+      matches.push(j++);
+    } else if (line.type === "remove") {
+      matches.push(-1);
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+// Three-way merge of two texts that both started from base (diff3)
+// Changes to different regions are combined; overlapping changes are kept
+// side by side between git-style conflict markers
+export function mergeLines(base: string, mine: string, theirs: string): MergeResult {
+  const o = base.split("\n");
+  const a = mine.split("\n");
+  const b = theirs.split("\n");
+  const toMine = matchLines(base, mine);
+  const toTheirs = matchLines(base, theirs);
+
+  const result: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let x = 0;
+  let y = 0;
+
+  while (i < o.length || x < a.length || y < b.length) {
+    // Base line unchanged on both sides: copy it through
+    if (i < o.length && toMine[i] === x && toTheirs[i] === y) {
+      result.push(o[i]!);
+      i++;
+      x++;
+      y++;
+      continue;
+    }
+
+    // Find the next base line both sides kept, which closes this changed chunk
+    let end = i;
+    while (end < o.length && (toMine[end] === -1 || toTheirs[end] === -1)) {
+      end++;
+    }
+    const endMine = end < o.length ? toMine[end]! : a.length;
+    const endTheirs = end < o.length ? toTheirs[end]! : b.length;
+
+    const original = o.slice(i, end);
+    const ours = a.slice(x, endMine);
+    const other = b.slice(y, endTheirs);
+
+    if (sameLines(ours, original)) {
+      result.push(...other);
+    } else if (sameLines(other, original) || sameLines(ours, other)) {
+      result.push(...ours);
+    } else {
+      result.push("<<<<<<< mine", ...ours, "=======", ...other, ">>>>>>> theirs");
+      conflicts++;
+    }
+
+    i = end;
+    x = endMine;
+    y = endTheirs;
+  }
+
+  return { text: result.join("\n"), conflicts };
+}
+
+// Smallest single replacement that turns one string into another
+export function replacementBetween(from: string, to: string): { from: number; to: number; insert: string } {
+  let start = 0;
+  while (start < from.length && start < to.length && from[start] === to[start]) start++;
+  let end = 0;
+  while (
+    end < from.length - start &&
+    end < to.length - start &&
+    from[from.length - 1 - end] === to[to.length - 1 - end]
+  ) end++;
+  return { from: start, to: from.length - end, insert: to.slice(start, to.length - end) };
+}
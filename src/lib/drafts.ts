@@ -0,0 +1,66 @@
+// Local draft storage in IndexedDB
+// Keeps unsaved editor buffers so they survive closed tabs, crashes and network failures
+
+export interface Draft {
+  key: string; // From getDraftKey
+  title: string;
+  content: string;
+  tags: string[];
+  savedAt: number;
+}
+
+// Stands in for the essay ID of an essay that hasn't been saved yet
+export const NEW_DRAFT_KEY = "new";
+
+// Drafts are scoped to the signed-in user, so a shared browser never offers one account another's text
+export function getDraftKey(userId: number, essayId?: string): string {
+  return `${userId}:${essayId ?? NEW_DRAFT_KEY}`;
+}
+
+const DB_NAME = "disregarded";
+const DB_VERSION = 1;
+const STORE = "drafts";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "key" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+// Run a single request against the drafts store
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getDraft(key: string): Promise<Draft | null> {
+  return (await withStore<Draft | undefined>("readonly", (store) => store.get(key))) ?? null;
+}
+
+export async function saveDraft(draft: Draft): Promise<void> {
+  await withStore("readwrite", (store) => store.put(draft));
+}
+
+export async function deleteDraft(key: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(key));
+}
+
+// Drop every stored draft, on logout or when the session ends
+export async function clearDrafts(): Promise<void> {
+  await withStore("readwrite", (store) => store.clear());
+}
@@ -0,0 +1,88 @@
+// RSS 2.0 and Atom feed rendering
+import { renderMarkdown, markdownExcerpt, escapeHtml } from "./markdown";
+import { parseDbDate } from "./site";
+
+export type FeedFormat = "rss" | "atom";
+
+export interface FeedInfo {
+  title: string;
+  description: string;
+  siteUrl: string; // Page the feed describes
+  feedUrl: string; // URL of the feed itself
+}
+
+export interface FeedEntry {
+  short_id: string;
+  title: string;
+  content: string;
+  author: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Most recent update across all entries (epoch if the feed is empty)
+export function feedLastModified(entries: Pick<FeedEntry, "updated_at">[]): Date {
+  let latest = 0;
+  for (const entry of entries) {
+    latest = Math.max(latest, parseDbDate(entry.updated_at).getTime());
+  }
+  return new Date(latest);
+}
+
+export function renderRssFeed(info: FeedInfo, entries: FeedEntry[], baseUrl: string): string {
+  const items = entries.map((entry) => {
+    const url = `${baseUrl}/${entry.short_id}`;
+    return `    <item>
+      <title>${escapeHtml(entry.title)}</title>
+      <link>${escapeHtml(url)}</link>
+      <guid isPermaLink="true">${escapeHtml(url)}</guid>
+      <dc:creator>${escapeHtml(entry.author)}</dc:creator>
+      <pubDate>${parseDbDate(entry.created_at).toUTCString()}</pubDate>
+      <dcterms:modified>${parseDbDate(entry.updated_at).toISOString()}</dcterms:modified>
+      <description>${escapeHtml(markdownExcerpt(entry.content, 300))}</description>
+      <content:encoded>${escapeHtml(renderMarkdown(entry.content))}</content:encoded>
+    </item>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/">
+  <channel>
+    <title>${escapeHtml(info.title)}</title>
+    <link>${escapeHtml(info.siteUrl)}</link>
+    <description>${escapeHtml(info.description)}</description>
+    <atom:link href="${escapeHtml(info.feedUrl)}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${feedLastModified(entries).toUTCString()}</lastBuildDate>
+${items.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+export function renderAtomFeed(info: FeedInfo, entries: FeedEntry[], baseUrl: string): string {
+  const items = entries.map((entry) => {
+    const url = `${baseUrl}/${entry.short_id}`;
+    return `  <entry>
+    <title>${escapeHtml(entry.title)}</title>
+    <id>${escapeHtml(url)}</id>
+    <link rel="alternate" type="text/html" href="${escapeHtml(url)}" />
+    <author><name>${escapeHtml(entry.author)}</name></author>
+    <published>${parseDbDate(entry.created_at).toISOString()}</published>
+    <updated>${parseDbDate(entry.updated_at).toISOString()}</updated>
+    <summary>${escapeHtml(markdownExcerpt(entry.content, 300))}</summary>
+    <content type="html">${escapeHtml(renderMarkdown(entry.content))}</content>
+  </entry>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeHtml(info.title)}</title>
+  <subtitle>${escapeHtml(info.description)}</subtitle>
+  <id>${escapeHtml(info.feedUrl)}</id>
+  <link rel="self" type="application/atom+xml" href="${escapeHtml(info.feedUrl)}" />
+  <link rel="alternate" type="text/html" href="${escapeHtml(info.siteUrl)}" />
+  <updated>${feedLastModified(entries).toISOString()}</updated>
+  <generator>Disregarded</generator>
+${items.join("\n")}
+</feed>
+`;
+}
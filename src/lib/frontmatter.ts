@@ -0,0 +1,35 @@
+// Markdown documents with YAML front matter, used for essay export and import
+// Server-only: relies on Bun's built-in YAML parser
+
+export interface FrontMatterDocument {
+  data: Record<string, unknown>;
+  content: string;
+}
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+// Serialize front matter fields followed by the markdown body
+export function stringifyFrontMatter(data: Record<string, unknown>, content: string): string {
+  return `---\n${Bun.YAML.stringify(data, null, 2)}\n---\n\n${content}\n`;
+}
+
+// Split a document into front matter fields and body
+// Documents without a front matter block are treated as plain markdown;
+// a block that isn't a valid YAML mapping throws
+export function parseFrontMatter(text: string): FrontMatterDocument {
+  const source = text.replace(/^\uFEFF/, "");
+  const match = source.match(FRONT_MATTER_PATTERN);
+  if (!match) {
+    return { data: {}, content: source };
+  }
+
+  const data = Bun.YAML.parse(match[1]!);
+  if (data !== null && (typeof data !== "object" || Array.isArray(data))) {
+    throw new Error("Front matter must be a YAML mapping");
+  }
+
+  return {
+    data: (data ?? {}) as Record<string, unknown>,
+    content: source.slice(match[0].length).replace(/^\r?\n/, ""),
+  };
+}
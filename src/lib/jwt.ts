@@ -8,14 +8,19 @@ if (!JWT_SECRET) {
   process.exit(1);
 }
 
-// JWT expiry in seconds (default: 24 hours)
-const JWT_EXPIRY = parseInt(process.env.JWT_EXPIRY || "86400", 10);
+// Access token expiry in seconds (default: 15 minutes)
+const JWT_EXPIRY = parseInt(process.env.JWT_EXPIRY || "900", 10);
+
+// Refresh token (session) expiry in seconds (default: 30 days)
+export const REFRESH_TOKEN_EXPIRY = parseInt(process.env.REFRESH_TOKEN_EXPIRY || "2592000", 10);
 
 console.log(`[jwt] Token expiry: ${JWT_EXPIRY} seconds (${(JWT_EXPIRY / 3600).toFixed(1)} hours)`);
+console.log(`[jwt] Refresh token expiry: ${REFRESH_TOKEN_EXPIRY} seconds (${(REFRESH_TOKEN_EXPIRY / 86400).toFixed(1)} days)`);
 
-interface JWTPayload {
+export interface JWTPayload {
   userId: number;
   username: string;
+  sid: string; // Session the token was issued for
   iat: number;
   exp: number;
 }
@@ -73,7 +78,7 @@ async function verify(data: string, signature: string): Promise<boolean> {
 }
 
 // Create JWT token
-export async function createToken(userId: number, username: string): Promise<string> {
+export async function createToken(userId: number, username: string, sessionId: string): Promise<string> {
   const header = {
     alg: "HS256",
     typ: "JWT",
@@ -83,6 +88,7 @@ export async function createToken(userId: number, username: string): Promise<str
   const payload: JWTPayload = {
     userId,
     username,
+    sid: sessionId,
     iat: now,
     exp: now + JWT_EXPIRY,
   };
@@ -139,3 +145,13 @@ export function extractToken(authHeader: string | null): string | null {
   if (!authHeader.startsWith("Bearer ")) return null;
   return authHeader.slice(7);
 }
+
+// Generate an opaque random token (base64url)
+export function generateOpaqueToken(bytes = 32): string {
+  return uint8ArrayToBase64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+// Hash a refresh token for storage - only hashes are kept server-side
+export function hashToken(token: string): string {
+  return new Bun.CryptoHasher("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,38 @@
+// Shared markdown pipeline for the editor preview and server-rendered pages
+// Uses marked with GitHub-style alerts ([!NOTE], [!TIP], ...)
+import { Marked } from "marked";
+import markedAlert from "marked-alert";
+
+const markdown = new Marked(markedAlert());
+
+// Render markdown to HTML
+export function renderMarkdown(content: string): string {
+  return markdown.parse(content, { async: false });
+}
+
+// Escape text for safe inclusion in HTML content or attributes
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Plain-text excerpt of markdown content (for meta descriptions and summaries)
+export function markdownExcerpt(content: string, maxLength = 160): string {
+  const text = renderMarkdown(content)
+    .replace(/<svg[\s\S]*?<\/svg>/g, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (text.length <= maxLength) return text;
+  return text.slice(0, maxLength - 1).replace(/\s+\S*$/, "") + "…";
+}
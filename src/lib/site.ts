@@ -0,0 +1,34 @@
+// Public site URL helpers for canonical links, feeds and share metadata
+
+// Public base URL (e.g. https://essays.example.com) - derived from the request when unset
+const PUBLIC_URL = process.env.PUBLIC_URL?.replace(/\/+$/, "");
+
+// Trust X-Forwarded-* headers from a reverse proxy (see the nginx example in README)
+// Disable when the server is exposed directly, or clients can spoof their IP and the site URL
+export const TRUST_PROXY = process.env.TRUST_PROXY !== "false";
+
+export const SITE_NAME = "Disregarded";
+
+// Resolve the public base URL, honoring the nginx proxy headers when trusted
+export function getSiteUrl(req: Request): string {
+  if (PUBLIC_URL) return PUBLIC_URL;
+
+  const url = new URL(req.url);
+  const forwardedProto = TRUST_PROXY ? req.headers.get("X-Forwarded-Proto")?.split(",")[0]?.trim() : null;
+  const forwardedHost = TRUST_PROXY ? req.headers.get("X-Forwarded-Host") : null;
+  const proto = forwardedProto || url.protocol.replace(":", "");
+  const host = forwardedHost || req.headers.get("Host") || url.host;
+  return `${proto}://${host}`;
+}
+
+// Convert SQLite CURRENT_TIMESTAMP values (UTC, "YYYY-MM-DD HH:MM:SS") to a Date
+export function parseDbDate(value: string): Date {
+  return new Date(value.replace(" ", "T") + "Z");
+}
+
+// Convert an ISO 8601 timestamp to SQLite's CURRENT_TIMESTAMP format
+export function toDbDate(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 19).replace("T", " ");
+}
@@ -1,66 +1,52 @@
-import type { Diagnostic } from "@codemirror/lint";
-import { linter } from "@codemirror/lint";
+import type { Action, Diagnostic } from "@codemirror/lint";
+import { forceLinting, linter } from "@codemirror/lint";
 import { EditorView } from "@codemirror/view";
 import type { Extension } from "@codemirror/state";
 // @ts-ignore - typo-js has no types
 import Typo from "typo-js";
+import { authFetch, getAuthToken } from "../hooks/useAuth";
 
-// Singleton dictionary instance
-let dictionary: Typo | null = null;
-let dictionaryLoading = false;
-let dictionaryReady = false;
-let dictionaryFailed = false;
+// Language used when an essay doesn't name one
+const DEFAULT_LANGUAGE = "en_US";
 
-// Initialize the dictionary (lazy load)
-async function initDictionary(): Promise<Typo | null> {
-  if (dictionaryReady && dictionary) return dictionary;
-  if (dictionaryFailed) return null;
-  
-  if (dictionaryLoading) {
-    // Wait for loading to complete
-    return new Promise((resolve) => {
-      const check = setInterval(() => {
-        if (dictionaryReady && dictionary) {
-          clearInterval(check);
-          resolve(dictionary);
-        } else if (dictionaryFailed) {
-          clearInterval(check);
-          resolve(null);
-        }
-      }, 100);
-    });
-  }
-
-  dictionaryLoading = true;
+// Dictionaries by locale, each loaded the first time an essay needs it
+// A failed load stays cached as null, so a missing language isn't refetched on every lint
+const dictionaries = new Map<string, Promise<Typo | null>>();
 
+async function loadDictionary(locale: string): Promise<Typo | null> {
   try {
-    // Load dictionary files from node_modules via server
+    // Hunspell files served by the server
     const [affResponse, dicResponse] = await Promise.all([
-      fetch("/dictionaries/en_US.aff"),
-      fetch("/dictionaries/en_US.dic"),
+      fetch(`/dictionaries/${locale}.aff`),
+      fetch(`/dictionaries/${locale}.dic`),
     ]);
 
     if (!affResponse.ok || !dicResponse.ok) {
-      throw new Error("Failed to load dictionary files");
+      throw new Error(`Failed to load dictionary files for ${locale}`);
     }
 
     const affData = await affResponse.text();
     const dicData = await dicResponse.text();
 
-    dictionary = new Typo("en_US", affData, dicData);
-    dictionaryReady = true;
-    dictionaryLoading = false;
-    return dictionary;
+    return new Typo(locale, affData, dicData);
   } catch (error) {
     console.error("Failed to initialize dictionary:", error);
-    dictionaryLoading = false;
-    dictionaryFailed = true;
     return null;
   }
 }
 
-// Word boundary regex - matches words (including contractions)
-const WORD_REGEX = /[a-zA-Z]+(?:'[a-zA-Z]+)?/g;
+// Initialize the dictionary for a locale (lazy load)
+function initDictionary(locale = DEFAULT_LANGUAGE): Promise<Typo | null> {
+  let dictionary = dictionaries.get(locale);
+  if (!dictionary) {
+    dictionary = loadDictionary(locale);
+    dictionaries.set(locale, dictionary);
+  }
+  return dictionary;
+}
+
+// Word boundary regex - matches words in any script (including contractions)
+const WORD_REGEX = /\p{L}+(?:'\p{L}+)?/gu;
 
 // Words to ignore (markdown syntax, code, etc.)
 const IGNORE_PATTERNS = [
@@ -105,9 +91,28 @@ function isInsideMarkdownSyntax(text: string, pos: number): boolean {
   return false;
 }
 
+// Suggestions offered as one-click replacements on each diagnostic
+const MAX_REPLACE_ACTIONS = 3;
+
+// Words accepted on top of the Hunspell dictionary
+interface WordLists {
+  personal: Set<string>;
+  ignored: Set<string>;
+}
+
+// A word added in lowercase also covers its capitalized forms, like in Hunspell
+function isListed(words: Set<string>, word: string): boolean {
+  return words.has(word) || words.has(word.toLowerCase());
+}
+
 // Spell check a document and return diagnostics
-async function spellCheckDocument(doc: string): Promise<Diagnostic[]> {
-  const dict = await initDictionary();
+async function spellCheckDocument(
+  doc: string,
+  language: string,
+  lists: WordLists,
+  getActions: (word: string, suggestions: string[]) => Action[]
+): Promise<Diagnostic[]> {
+  const dict = await initDictionary(language);
   if (!dict) return []; // Dictionary not loaded yet or failed
   
   const diagnostics: Diagnostic[] = [];
@@ -128,6 +133,7 @@ async function spellCheckDocument(doc: string): Promise<Diagnostic[]> {
 
       // Skip words we should ignore
       if (shouldIgnoreWord(word)) continue;
+      if (isListed(lists.personal, word) || isListed(lists.ignored, word)) continue;
 
       // Check spelling
       if (!dict.check(word)) {
@@ -139,6 +145,7 @@ async function spellCheckDocument(doc: string): Promise<Diagnostic[]> {
           severity: "warning",
           message: suggestions.length > 0 ? `Suggestions: ${suggestions.join(", ")}` : "Unknown word",
           source: "spellcheck",
+          actions: getActions(word, suggestions),
         });
       }
     }
@@ -149,32 +156,122 @@ async function spellCheckDocument(doc: string): Promise<Diagnostic[]> {
   return diagnostics;
 }
 
-// Pre-created spell check linter extension - single instance
-export const spellCheckExtension: Extension = linter(
-  async (view: EditorView) => {
-    const doc = view.state.doc.toString();
-    try {
-      return await spellCheckDocument(doc);
-    } catch (error) {
-      console.error("Spell check error:", error);
-      return [];
-    }
-  },
-  {
-    delay: 500, // 500ms debounce after typing stops
+// Words from a GET endpoint returning { words }, or none if it can't be reached
+async function fetchWords(url: string): Promise<string[]> {
+  try {
+    const res = await authFetch(url);
+    if (!res.ok) return [];
+    const data = await res.json();
+    return data.words;
+  } catch {
+    return [];
   }
-);
+}
+
+export interface SpellCheckOptions {
+  // Essay whose ignore list applies; essays that haven't been saved yet have none
+  essayId?: string;
+  // Hunspell locale, e.g. "en_GB" (default: en_US)
+  language?: string;
+  // Offer the fixes that change the essay: replacements and ignoring
+  editable: boolean;
+  // Reports a word list update the server rejected
+  onError?: (message: string) => void;
+}
+
+// Spell check linter for one editor, with the signed-in user's dictionary, the essay's
+// ignore list, and lint actions to add to either or to take a suggestion
+export function createSpellCheckExtension({ essayId, language = DEFAULT_LANGUAGE, editable, onError }: SpellCheckOptions): Extension {
+  const signedIn = getAuthToken() !== null;
+  const lists: WordLists = { personal: new Set(), ignored: new Set() };
+
+  const listsLoaded = Promise.all([
+    signedIn ? fetchWords("/api/account/words") : [],
+    signedIn && essayId ? fetchWords(`/api/essays/${essayId}/ignored-words`) : [],
+  ]).then(([personal, ignored]) => {
+    personal.forEach((word) => lists.personal.add(word));
+    ignored.forEach((word) => lists.ignored.add(word));
+  });
+
+  // Accept the word straight away, and take it back if the server refuses it
+  const addToList = (view: EditorView, list: Set<string>, url: string, word: string) => {
+    list.add(word);
+    forceLinting(view);
+
+    authFetch(url, { method: "POST", body: JSON.stringify({ word }) }).then(async (res) => {
+      if (res.ok) return;
+      const data = await res.json().catch(() => ({}));
+      list.delete(word);
+      forceLinting(view);
+      onError?.(data.error || `Failed to save "${word}"`);
+    }).catch(() => {
+      list.delete(word);
+      forceLinting(view);
+      onError?.(`Failed to save "${word}"`);
+    });
+  };
+
+  const getActions = (word: string, suggestions: string[]): Action[] => {
+    const actions: Action[] = [];
+
+    if (editable) {
+      for (const suggestion of suggestions.slice(0, MAX_REPLACE_ACTIONS)) {
+        actions.push({
+          name: `Replace with ${suggestion}`,
+          apply: (view, from, to) => {
+            view.dispatch({
+              changes: { from, to, insert: suggestion },
+              selection: { anchor: from + suggestion.length },
+            });
+          },
+        });
+      }
+    }
+
+    if (signedIn) {
+      actions.push({
+        name: "Add to dictionary",
+        apply: (view) => addToList(view, lists.personal, "/api/account/words", word),
+      });
+    }
+
+    if (signedIn && editable && essayId) {
+      actions.push({
+        name: "Ignore in this essay",
+        apply: (view) => addToList(view, lists.ignored, `/api/essays/${essayId}/ignored-words`, word),
+      });
+    }
+
+    return actions;
+  };
+
+  return linter(
+    async (view: EditorView) => {
+      const doc = view.state.doc.toString();
+      try {
+        await listsLoaded;
+        return await spellCheckDocument(doc, language, lists, getActions);
+      } catch (error) {
+        console.error("Spell check error:", error);
+        return [];
+      }
+    },
+    {
+      delay: 500, // 500ms debounce after typing stops
+    }
+  );
+}
 
 // Get suggestions for a word
-export async function getSuggestions(word: string): Promise<string[]> {
-  const dict = await initDictionary();
+export async function getSuggestions(word: string, language = DEFAULT_LANGUAGE): Promise<string[]> {
+  const dict = await initDictionary(language);
   if (!dict) return [];
   return dict.suggest(word).slice(0, 10);
 }
 
 // Check if a word is spelled correctly
-export async function isCorrect(word: string): Promise<boolean> {
-  const dict = await initDictionary();
+export async function isCorrect(word: string, language = DEFAULT_LANGUAGE): Promise<boolean> {
+  const dict = await initDictionary(language);
   if (!dict) return true; // Assume correct if dict not loaded
   return dict.check(word);
 }
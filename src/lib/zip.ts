@@ -0,0 +1,194 @@
+// Minimal ZIP archive writer and reader for account backups
+// Supports stored and deflated entries with UTF-8 names; no ZIP64, encryption or multi-disk archives
+
+import { inflateRawSync } from "node:zlib";
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array<ArrayBuffer>;
+  modified?: Date;
+}
+
+export interface ZipReadLimits {
+  maxEntrySize: number;
+  maxTotalSize: number;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const VERSION = 20; // 2.0: deflate and folders
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+// MS-DOS date/time fields (2-second resolution, years from 1980)
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getUTCFullYear(), 1980);
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | (date.getUTCSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+function fromDosDateTime(time: number, date: number): Date {
+  return new Date(Date.UTC(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ));
+}
+
+// Stream a ZIP archive, compressing one entry per pull so large exports aren't held in memory at once
+export function zipStream(entries: Iterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const iterator = entries[Symbol.iterator]();
+  const centralHeaders: Uint8Array[] = [];
+  const encoder = new TextEncoder();
+  let offset = 0;
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const next = iterator.next();
+
+      if (next.done) {
+        // Central directory followed by the end-of-central-directory record
+        const directorySize = centralHeaders.reduce((size, header) => size + header.length, 0);
+        for (const header of centralHeaders) {
+          controller.enqueue(header);
+        }
+
+        const end = new DataView(new ArrayBuffer(22));
+        end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+        end.setUint16(8, centralHeaders.length, true);
+        end.setUint16(10, centralHeaders.length, true);
+        end.setUint32(12, directorySize, true);
+        end.setUint32(16, offset, true);
+        controller.enqueue(new Uint8Array(end.buffer));
+        controller.close();
+        return;
+      }
+
+      const entry = next.value;
+      const name = encoder.encode(entry.name);
+      const deflated = Bun.deflateSync(entry.data);
+      // Keep incompressible entries stored
+      const method = deflated.length < entry.data.length ? METHOD_DEFLATED : METHOD_STORED;
+      const body = method === METHOD_DEFLATED ? deflated : entry.data;
+      const crc = Bun.hash.crc32(entry.data);
+      const { time, date } = toDosDateTime(entry.modified ?? new Date());
+
+      const local = new DataView(new ArrayBuffer(30));
+      local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+      local.setUint16(4, VERSION, true);
+      local.setUint16(6, FLAG_UTF8, true);
+      local.setUint16(8, method, true);
+      local.setUint16(10, time, true);
+      local.setUint16(12, date, true);
+      local.setUint32(14, crc, true);
+      local.setUint32(18, body.length, true);
+      local.setUint32(22, entry.data.length, true);
+      local.setUint16(26, name.length, true);
+
+      const central = new Uint8Array(46 + name.length);
+      const header = new DataView(central.buffer);
+      header.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+      header.setUint16(4, VERSION, true);
+      header.setUint16(6, VERSION, true);
+      header.setUint16(8, FLAG_UTF8, true);
+      header.setUint16(10, method, true);
+      header.setUint16(12, time, true);
+      header.setUint16(14, date, true);
+      header.setUint32(16, crc, true);
+      header.setUint32(20, body.length, true);
+      header.setUint32(24, entry.data.length, true);
+      header.setUint16(28, name.length, true);
+      header.setUint32(42, offset, true);
+      central.set(name, 46);
+      centralHeaders.push(central);
+
+      controller.enqueue(new Uint8Array(local.buffer));
+      controller.enqueue(name);
+      controller.enqueue(body);
+      offset += 30 + name.length + body.length;
+    },
+  });
+}
+
+// Read every file entry of a ZIP archive
+// Throws on malformed archives, unsupported methods, CRC mismatches or size limit violations
+export function readZip(archive: Uint8Array, limits: ZipReadLimits): ZipEntry[] {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end-of-central-directory record sits at the end, before an optional comment (max 64KB)
+  let end = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error("Not a zip archive");
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+  let totalSize = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > archive.length || view.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error("Corrupt zip central directory");
+    }
+
+    const method = view.getUint16(position + 10, true);
+    const time = view.getUint16(position + 12, true);
+    const date = view.getUint16(position + 14, true);
+    const crc = view.getUint32(position + 16, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const size = view.getUint32(position + 24, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(archive.subarray(position + 46, position + 46 + nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    // Skip directory entries
+    if (name.endsWith("/")) continue;
+
+    totalSize += size;
+    if (size > limits.maxEntrySize || totalSize > limits.maxTotalSize) {
+      throw new Error(`Archive too large at ${name}`);
+    }
+    if (localOffset + 30 > archive.length || view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt zip entry: ${name}`);
+    }
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const body = archive.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Uint8Array<ArrayBuffer>;
+    if (method === METHOD_STORED) {
+      data = body.slice();
+    } else if (method === METHOD_DEFLATED) {
+      // Cap output at the declared size so a forged header can't inflate unbounded
+      data = inflateRawSync(body, { maxOutputLength: Math.max(size, 1) });
+    } else {
+      throw new Error(`Unsupported compression method in ${name}`);
+    }
+
+    if (data.length !== size || Bun.hash.crc32(data) !== crc) {
+      throw new Error(`Checksum mismatch in ${name}`);
+    }
+
+    entries.push({ name, data, modified: fromDosDateTime(time, date) });
+  }
+
+  return entries;
+}